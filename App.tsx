@@ -1,70 +1,219 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { MasterConfig, GradingResult, SubjectInfo } from './types.ts';
-import { analyzeMasterSheet, checkInkDensity, fileToBase64 } from './services/imageProcessor.ts';
+import { MasterConfig, GradingResult, SubjectInfo, ExamRecord, GradingSession, RosterEntry, AiUsage, GradeScale, QuestionRule, QuestionPolicy, MasterDetectionMode, MasterDetectionReport, SheetTemplate, MasterPage } from './types.ts';
+import { analyzeMasterSheet, fileToBase64, loadImage, readImageData } from './services/imageProcessor.ts';
+import { alignToMaster, registerSheet } from './services/alignment.ts';
+import { compareAnswerKeys, detectMasterLayout } from './services/layoutDetector.ts';
+import { countLowConfidence, gradePages, regradeResult, scoreDetails } from './services/grader.ts';
+import { readSubmission, SubmissionRead } from './services/sheetReader.ts';
+import { BatchItem, gradeBatch } from './services/batchGrader.ts';
+import { DEFAULT_AI_CALL_CAP, mergeOpinions, pendingOpinions, resolveOpinion, runRecheck } from './services/aiRecheck.ts';
+import { mergeProposals, proposeWrittenScores, unconfirmedWritten } from './services/writtenGrading.ts';
+import { gradeScaleOf, resultGrade } from './services/gradeScale.ts';
+import { printFeedbackSlips } from './services/feedbackSlips.ts';
+import { isVisionConfigured } from './services/visionProvider.ts';
+import { DEFAULT_OPTION_COUNT, OPTION_LABELS, POLICY_LABELS, questionOptions, totalPoints } from './services/answerKey.ts';
+import { groupPages, mergePageLayouts, pageCount, PageLayout } from './services/pages.ts';
+import { exportResultsCsv, exportResultsXlsx } from './services/exporter.ts';
+import { createId, deleteSession, getExam, saveExam, saveSession, saveTemplate } from './services/storage.ts';
+import { masterFromTemplate, templateFromMaster } from './services/sheetTemplates.ts';
+import { applyRosterEntry, clearRosterEntry, findAbsentees, findByStudentCode, matchByFileName, parseRosterFile } from './services/roster.ts';
+import ExamLibrary from './components/ExamLibrary.tsx';
+import ReviewPanel from './components/ReviewPanel.tsx';
+import VersionEditor from './components/VersionEditor.tsx';
+import ItemAnalysisReport from './components/ItemAnalysisReport.tsx';
+import SimilarityReport from './components/SimilarityReport.tsx';
+import CameraCapture, { CaptureTally } from './components/CameraCapture.tsx';
+import TemplateManager from './components/TemplateManager.tsx';
+import LayoutEditor from './components/LayoutEditor.tsx';
+import BatchProgress from './components/BatchProgress.tsx';
+import RetakeQueue from './components/RetakeQueue.tsx';
+import AiRecheckPanel from './components/AiRecheckPanel.tsx';
+import WrittenRegionEditor from './components/WrittenRegionEditor.tsx';
+import GradeScaleEditor from './components/GradeScaleEditor.tsx';
+import AiSettings from './components/AiSettings.tsx';
+import { validateLayout } from './services/layoutEditor.ts';
+import { baseVersionLabel, versionLabels, versionMaster } from './services/versions.ts';
 
-const Header = () => (
+const Header = ({ onOpenLibrary, onOpenSettings }: { onOpenLibrary: () => void; onOpenSettings: () => void }) => (
   <header className="bg-blue-700 text-white p-4 shadow-md sticky top-0 z-50">
     <div className="container mx-auto flex justify-between items-center">
       <div className="flex items-center gap-3">
         <i className="fas fa-edit text-2xl"></i>
         <h1 className="text-xl font-bold">Smart Grader AI</h1>
       </div>
-      <div className="text-sm font-light">ระบบตรวจข้อสอบสำหรับครูไทย</div>
+      <div className="flex items-center gap-4">
+        <div className="text-sm font-light hidden md:block">ระบบตรวจข้อสอบสำหรับครูไทย</div>
+        <button onClick={onOpenLibrary} className="bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2">
+          <i className="fas fa-folder-open"></i> คลังข้อสอบ
+        </button>
+        <button onClick={onOpenSettings} className="bg-blue-600 hover:bg-blue-500 px-3 py-1.5 rounded-lg text-sm font-bold" title="ตั้งค่า AI">
+          <i className="fas fa-cog"></i>
+        </button>
+      </div>
     </div>
   </header>
 );
 
 export default function App() {
-  const [step, setStep] = useState<'setup' | 'master' | 'verify' | 'grading' | 'results'>('setup');
+  const [step, setStep] = useState<'setup' | 'master' | 'verify' | 'grading' | 'results' | 'library'>('setup');
   const [subject, setSubject] = useState<SubjectInfo>({ name: '', questionCount: 20 });
   const [masterConfig, setMasterConfig] = useState<MasterConfig | null>(null);
   const [gradingResults, setGradingResults] = useState<GradingResult[]>([]);
+  const [retakes, setRetakes] = useState<GradingResult[]>([]); // ภาพคุณภาพไม่ผ่าน รอถ่ายใหม่
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+
+  // ข้อสอบและรอบการตรวจที่กำลังใช้งาน (บันทึกลงคลังข้อสอบในเครื่อง)
+  const [examId, setExamId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const storedSessionRef = useRef<string | null>(null); // รอบการตรวจที่มีอยู่ในเครื่องแล้ว
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [reviewIndex, setReviewIndex] = useState<number | null>(null);
+  const [uploadVersion, setUploadVersion] = useState<string>(''); // '' = อ่านจากกระดาษ / ชุดหลัก
+  const [showItemStats, setShowItemStats] = useState(false);
+  const [showGradeScale, setShowGradeScale] = useState(false);
+  const [showSimilarity, setShowSimilarity] = useState(false);
+  const [detectionMode, setDetectionMode] = useState<MasterDetectionMode>('local');
+  const [detectionReport, setDetectionReport] = useState<MasterDetectionReport | null>(null);
+  const [showLayoutEditor, setShowLayoutEditor] = useState(false);
   
-  // สถานะสำหรับ API Key
-  const [showKeyModal, setShowKeyModal] = useState<boolean>(false);
-  const [apiKeyInput, setApiKeyInput] = useState<string>('');
+  // หน้าต่างตั้งค่าผู้ให้บริการ AI
+  const [showSettings, setShowSettings] = useState<boolean>(false);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // ผลล่าสุดสำหรับการถ่ายต่อเนื่อง (ถ่ายหลายแผ่นก่อน state จะอัปเดต)
+  const resultsRef = useRef<GradingResult[]>(gradingResults);
+  resultsRef.current = gradingResults;
+
+  const [showCamera, setShowCamera] = useState(false);
+  const [cameraTally, setCameraTally] = useState<CaptureTally>({ count: 0 });
+  const pendingPagesRef = useRef<ImageData[]>([]);
+
+  // ความคืบหน้าการตรวจเป็นชุด (null = ไม่มีชุดที่กำลังแสดง)
+  const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
 
-  // ตรวจสอบ API Key เมื่อเริ่มใช้งาน
+  // ตรวจซ้ำด้วย AI (จำกัดจำนวนครั้งต่อรอบการตรวจ)
+  const [aiUsage, setAiUsage] = useState<AiUsage>({ calls: 0, cap: DEFAULT_AI_CALL_CAP });
+  const [aiRunning, setAiRunning] = useState(false);
+  const [aiMessage, setAiMessage] = useState<string | null>(null);
+
+  // ตรวจสอบการตั้งค่า AI เมื่อเริ่มใช้งาน
   useEffect(() => {
-    const currentKey = (window as any).process?.env?.API_KEY;
-    if (!currentKey || currentKey === "") {
-      setShowKeyModal(true);
-    }
+    if (!isVisionConfigured()) setShowSettings(true);
   }, []);
 
-  const handleSaveKey = () => {
-    if (apiKeyInput.trim()) {
-      if (!(window as any).process) (window as any).process = { env: {} };
-      if (!(window as any).process.env) (window as any).process.env = {};
-      
-      (window as any).process.env.API_KEY = apiKeyInput.trim();
-      setShowKeyModal(false);
-      setError(null);
-    } else {
-      setError("กรุณากรอก API Key ก่อนเริ่มต้นใช้งาน");
+  // บันทึกผลการตรวจลงเครื่องทุกครั้งที่มีการเปลี่ยนแปลง
+  useEffect(() => {
+    const all = [...gradingResults, ...retakes];
+    if (!examId || !sessionId) return;
+    if (all.length === 0) {
+      // ลบแผ่นสุดท้ายของรอบที่บันทึกไว้แล้ว ต้องลบรอบนี้ออกจากเครื่องด้วย ไม่เช่นนั้นเปิดใหม่แล้วแผ่นที่ลบจะกลับมา
+      if (storedSessionRef.current === sessionId) {
+        storedSessionRef.current = null;
+        deleteSession(sessionId).catch(err => setError("บันทึกผลการตรวจไม่สำเร็จ: " + err.message));
+      }
+      return;
     }
-  };
+    const session: GradingSession = {
+      id: sessionId,
+      examId,
+      results: gradingResults,
+      retakes,
+      aiUsage,
+      createdAt: Math.min(...all.map(r => r.timestamp)),
+      updatedAt: Date.now()
+    };
+    storedSessionRef.current = sessionId;
+    saveSession(session).catch(err => setError("บันทึกผลการตรวจไม่สำเร็จ: " + err.message));
+  }, [gradingResults, retakes, aiUsage, examId, sessionId]);
 
   const handleMasterUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    // เลือกหลายไฟล์ = ข้อสอบหลายหน้า เรียงหน้าตามชื่อไฟล์
+    const pageFiles = Array.from(files as ArrayLike<File>).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    e.target.value = '';
     
-    // ตรวจสอบ Key อีกครั้งก่อนเรียก API
-    if (!(window as any).process?.env?.API_KEY) {
-      setShowKeyModal(true);
+    const hasKey = isVisionConfigured();
+    if (detectionMode !== 'local' && !hasKey) {
+      setShowSettings(true);
       return;
     }
 
     setIsProcessing(true);
     try {
-      const base64 = await fileToBase64(file);
-      const result = await analyzeMasterSheet(base64, subject.questionCount);
-      setMasterConfig({ imageUrl: base64, ...result });
+      const canvas = canvasRef.current!;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+      const optionCount = subject.optionCount ?? DEFAULT_OPTION_COUNT;
+      const multiPage = pageFiles.length > 1;
+
+      const pages: MasterPage[] = [];
+      const images: HTMLImageElement[] = [];
+      for (const file of pageFiles) {
+        const base64 = await fileToBase64(file);
+        const img = await loadImage(base64);
+        const registration = registerSheet(readImageData(canvas, img));
+        pages.push({ imageUrl: base64, imageWidth: img.width, imageHeight: img.height, registration });
+        images.push(img);
+      }
+      const analyzeWithAi = (i: number) =>
+        analyzeMasterSheet(pages[i].imageUrl, subject.questionCount, { optionCount, page: i + 1, pageCount: pages.length });
+
+      const report: MasterDetectionReport = { source: 'local', unmarkedQuestions: [], mismatches: [] };
+      let layouts: PageLayout[] = [];
+      if (detectionMode !== 'ai') {
+        try {
+          let nextQuestion = 1;
+          for (let i = 0; i < images.length; i++) {
+            readImageData(canvas, images[i]);
+            const local = detectMasterLayout(ctx, canvas.width, canvas.height, subject.questionCount, {
+              optionCount,
+              firstQuestion: nextQuestion,
+              page: multiPage ? i + 1 : undefined
+            });
+            layouts.push(local);
+            report.unmarkedQuestions.push(...local.unmarkedQuestions);
+            nextQuestion = local.lastQuestion + 1;
+          }
+          if (nextQuestion - 1 < subject.questionCount) {
+            throw new Error(`พบช่องคำตอบเพียง ${nextQuestion - 1} ข้อ จากทั้งหมด ${subject.questionCount} ข้อ`);
+          }
+        } catch (localErr: any) {
+          // ตรวจในเครื่องไม่สำเร็จ ใช้ AI สำรองเมื่อมี API Key
+          if (!hasKey) throw localErr;
+          layouts = [];
+          report.unmarkedQuestions = [];
+          report.fallbackReason = localErr.message;
+        }
+      }
+      if (layouts.length === 0) {
+        for (let i = 0; i < pages.length; i++) layouts.push(await analyzeWithAi(i));
+        report.source = 'ai';
+      }
+
+      let layout = mergePageLayouts(layouts);
+      if (detectionMode === 'both' && report.source === 'local') {
+        // AI ใช้ตรวจซ้ำเท่านั้น ถ้าไม่สำเร็จยังใช้ผลจากการตรวจในเครื่องต่อได้
+        try {
+          const aiLayouts: PageLayout[] = [];
+          for (let i = 0; i < pages.length; i++) aiLayouts.push(await analyzeWithAi(i));
+          const ai = mergePageLayouts(aiLayouts);
+          report.aiAnswers = ai.correctAnswers;
+          report.mismatches = compareAnswerKeys(layout.correctAnswers, ai.correctAnswers, subject.questionCount);
+          // การตรวจในเครื่องยังไม่หาช่องเลขประจำตัวและชุดข้อสอบ ใช้ของ AI แทน
+          layout = { ...layout, idGrid: ai.idGrid, versionBoxes: ai.versionBoxes };
+        } catch (aiErr: any) {
+          report.crossCheckError = aiErr.message;
+        }
+      }
+
+      // ไม่มีช่องเลขประจำตัวและชุดข้อสอบ จะจับคู่นักเรียนและแยกชุดจากกระดาษไม่ได้ ต้องแจ้งครู
+      report.missingIdRegions = layout.idGrid.length === 0 && layout.versionBoxes.length === 0;
+      setMasterConfig({ ...pages[0], ...layout, extraPages: multiPage ? pages.slice(1) : undefined });
+      setDetectionReport(report);
       setStep('verify');
     } catch (err: any) {
       setError(err.message);
@@ -73,103 +222,383 @@ export default function App() {
     }
   };
 
+  // ให้ AI หาเฉพาะช่องเลขประจำตัวและชุดข้อสอบ โดยคงช่องคำตอบและเฉลยที่ตรวจในเครื่องไว้
+  const handleFindIdRegions = async () => {
+    if (!masterConfig) return;
+    if (!isVisionConfigured()) {
+      setShowSettings(true);
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      const pages = [masterConfig, ...(masterConfig.extraPages ?? [])];
+      const aiLayouts: PageLayout[] = [];
+      for (let i = 0; i < pages.length; i++) {
+        aiLayouts.push(await analyzeMasterSheet(pages[i].imageUrl, subject.questionCount, {
+          optionCount: subject.optionCount ?? DEFAULT_OPTION_COUNT, page: i + 1, pageCount: pages.length
+        }));
+      }
+      const ai = mergePageLayouts(aiLayouts);
+      setMasterConfig({ ...masterConfig, idGrid: ai.idGrid, versionBoxes: ai.versionBoxes });
+      setDetectionReport(prev => prev && { ...prev, missingIdRegions: ai.idGrid.length === 0 && ai.versionBoxes.length === 0 });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // ใช้ตำแหน่งช่องจากแม่แบบ แล้วให้ครูกรอกเฉลยเองในขั้นตรวจสอบ
+  const handleUseTemplate = (template: SheetTemplate) => {
+    setSubject(prev => ({ ...prev, questionCount: template.questionCount, optionCount: template.optionCount }));
+    setMasterConfig(masterFromTemplate(template));
+    setDetectionReport(null);
+    setStep('verify');
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!masterConfig) return;
+    try {
+      const template = templateFromMaster(subject.name, masterConfig, subject.questionCount);
+      await saveTemplate(template);
+      setMasterConfig({ ...masterConfig, templateId: template.id });
+    } catch (err: any) {
+      setError("บันทึกแม่แบบไม่สำเร็จ: " + err.message);
+    }
+  };
+
+  const persistExam = async (config: MasterConfig, nextRoster: RosterEntry[]) => {
+    const id = examId ?? createId();
+    const now = Date.now();
+    try {
+      const existing = examId ? await getExam(examId) : undefined;
+      await saveExam({ id, subject, masterConfig: config, roster: nextRoster, createdAt: existing?.createdAt ?? now, updatedAt: now });
+      setExamId(id);
+    } catch (err: any) {
+      setError("บันทึกข้อสอบลงเครื่องไม่สำเร็จ: " + err.message);
+    }
+  };
+
+  const handleConfirmMaster = async () => {
+    if (!masterConfig) return;
+    const issues = validateLayout(masterConfig.boxes, subject.questionCount);
+    if (issues.length > 0 && !window.confirm(`พบปัญหาตำแหน่งช่องคำตอบ:\n- ${issues.join('\n- ')}\n\nต้องการเริ่มตรวจต่อหรือไม่?`)) {
+      setShowLayoutEditor(true);
+      return;
+    }
+    await persistExam(masterConfig, roster);
+    // คิดคะแนนผลที่ตรวจไปแล้วใหม่ตามเฉลยที่แก้ไข
+    setGradingResults(prev => prev.map(r => regradeResult(r, masterConfig, totalPoints(versionMaster(masterConfig, r.versionLabel), subject.questionCount))));
+    setStep('grading');
+  };
+
+  const handleSaveGradeScale = async (gradeScale: GradeScale) => {
+    if (!masterConfig) return;
+    const next = { ...masterConfig, gradeScale };
+    setMasterConfig(next);
+    await persistExam(next, roster);
+  };
+
+  const handlePrintSlips = () => {
+    try {
+      printFeedbackSlips(subject, masterConfig!, gradingResults, roster);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleChangeVersion = (index: number, label: string) => {
+    if (!masterConfig) return;
+    const total = totalPoints(versionMaster(masterConfig, label), subject.questionCount);
+    setGradingResults(prev => prev.map((r, i) =>
+      i === index ? regradeResult({ ...r, versionLabel: label, versionNeedsReview: false }, masterConfig, total) : r
+    ));
+  };
+
+  const updateQuestionRule = (qNum: number, patch: Partial<QuestionRule>) => {
+    if (!masterConfig) return;
+    const rules = masterConfig.questionRules ?? {};
+    setMasterConfig({ ...masterConfig, questionRules: { ...rules, [qNum]: { ...rules[qNum], ...patch } } });
+  };
+
+  const handleRosterUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await parseRosterFile(file);
+      setRoster(imported);
+      // รายชื่อชุดใหม่ ล้างการจับคู่เดิมทั้งหมด
+      setGradingResults(prev => sortByStudentId(prev.map(clearRosterEntry)));
+      setRetakes(prev => prev.map(clearRosterEntry));
+      if (masterConfig) await persistExam(masterConfig, imported);
+    } catch (err: any) {
+      setError("นำเข้ารายชื่อไม่สำเร็จ: " + err.message);
+    }
+  };
+
+  const sortByStudentId = (list: GradingResult[]) =>
+    [...list].sort((a, b) => a.studentId.localeCompare(b.studentId, undefined, { numeric: true }));
+
+  // ภาพถ่ายใหม่ของนักเรียนคนเดิม (รายชื่อหรือเลขประจำตัวตรงกัน) แทนที่รายการในคิวถ่ายใหม่
+  const isSameStudent = (a: GradingResult, b: GradingResult) =>
+    (!!a.rosterId && a.rosterId === b.rosterId) ||
+    (!!a.idRead && !a.idRead.needsReview && !!b.idRead && !b.idRead.needsReview && a.idRead.value === b.idRead.value);
+
+  // แผ่นเดียวกันแม้ครูแก้ไขแถวนั้นหรือลำดับแถวเปลี่ยนไประหว่างที่ AI ทำงาน
+  const isSameSheet = (a: GradingResult, b: GradingResult) =>
+    a.timestamp === b.timestamp && a.sourceFileName === b.sourceFileName;
+
+  const addResults = (accepted: GradingResult[], rejected: GradingResult[]) => {
+    resultsRef.current = [...resultsRef.current, ...accepted];
+    setGradingResults(prev => sortByStudentId([...prev, ...accepted]));
+    setRetakes(prev => [...prev.filter(r => !accepted.some(a => isSameStudent(a, r))), ...rejected]);
+  };
+
+
+  const handleAiRecheck = async () => {
+    if (!masterConfig) return;
+    if (!isVisionConfigured()) {
+      setShowSettings(true);
+      return;
+    }
+    setAiRunning(true);
+    setAiMessage(null);
+    try {
+      const summary = await runRecheck(gradingResults, masterConfig, {
+        callBudget: aiUsage.cap - aiUsage.calls,
+        onCall: () => setAiUsage(prev => ({ ...prev, calls: prev.calls + 1 })),
+        onResult: (original, updated) => setGradingResults(prev => prev.map(r => (isSameSheet(r, original) ? mergeOpinions(r, updated) : r)))
+      });
+      const done = `ตรวจซ้ำแล้ว ${summary.checkedQuestions} ข้อ (${summary.calls} ครั้ง) ไม่ตรงกับเครื่อง ${summary.disagreements} ข้อ`;
+      setAiMessage(summary.stoppedReason ? `${done} — ${summary.stoppedReason}` : done);
+    } finally {
+      setAiRunning(false);
+    }
+  };
+
+  // ให้ AI เสนอคะแนนข้อเขียน (ใช้เพดานจำนวนครั้งเดียวกับการตรวจซ้ำ) ครูยืนยันในหน้าตรวจทาน
+  const handleProposeWritten = async (indices: number[]) => {
+    if (!masterConfig) return;
+    if (!isVisionConfigured()) {
+      setShowSettings(true);
+      return;
+    }
+    setAiRunning(true);
+    setAiMessage(null);
+    try {
+      const summary = await proposeWrittenScores(indices.map(i => gradingResults[i]), masterConfig, {
+        callBudget: aiUsage.cap - aiUsage.calls,
+        onCall: () => setAiUsage(prev => ({ ...prev, calls: prev.calls + 1 })),
+        onResult: (original, updated) => setGradingResults(prev => prev.map(r => (isSameSheet(r, original) ? mergeProposals(r, updated) : r)))
+      });
+      const done = `AI เสนอคะแนนข้อเขียนแล้ว ${summary.proposed} ข้อ (${summary.calls} ครั้ง) กรุณาตรวจทานและยืนยันคะแนน`;
+      setAiMessage(summary.stoppedReason ? `${done} — ${summary.stoppedReason}` : done);
+    } finally {
+      setAiRunning(false);
+    }
+  };
+
+  const handleResolveOpinion = (index: number, question: number, accept: boolean) => {
+    setGradingResults(prev => prev.map((r, i) => (i === index ? resolveOpinion(r, masterConfig!, question, accept) : r)));
+  };
+
+  const handleResolveAllOpinions = (accept: boolean) => {
+    const pending = pendingOpinions(gradingResults);
+    setGradingResults(prev => prev.map((r, i) =>
+      pending.filter(p => p.index === i).reduce((acc, p) => resolveOpinion(acc, masterConfig!, p.detail.question, accept), r)
+    ));
+  };
+
+  const handleAssignStudent = (index: number, rosterId: string) => {
+    const entry = roster.find(r => r.id === rosterId);
+    setGradingResults(prev => sortByStudentId(prev.map((r, i) => {
+      if (i === index) return entry ? applyRosterEntry(r, entry) : clearRosterEntry(r);
+      // นักเรียนหนึ่งคนจับคู่ได้กับกระดาษเพียงแผ่นเดียว
+      return entry && r.rosterId === entry.id ? clearRosterEntry(r) : r;
+    })));
+  };
+
+  const handleOpenExam = (exam: ExamRecord, session: GradingSession | null) => {
+    setSubject(exam.subject);
+    setMasterConfig(exam.masterConfig);
+    setExamId(exam.id);
+    setSessionId(session?.id ?? null);
+    storedSessionRef.current = session?.id ?? null;
+    setGradingResults(session?.results ?? []);
+    setRetakes(session?.retakes ?? []);
+    setAiUsage(session?.aiUsage ?? { calls: 0, cap: DEFAULT_AI_CALL_CAP });
+    setAiMessage(null);
+    setRoster(exam.roster ?? []);
+    setDetectionReport(null);
+    setStep(session ? 'results' : 'grading');
+  };
+
+  // สร้างผลการตรวจของนักเรียนหนึ่งคนจากค่าที่อ่านได้ทุกหน้า (จากไฟล์หรือจากกล้อง)
+  const buildResult = (read: SubmissionRead, sourceNames: string[], existing: GradingResult[]): GradingResult => {
+    const master = masterConfig!;
+    const sheet = gradePages(master, read.pages, uploadVersion || undefined);
+    const { details, idRead } = sheet;
+    const hasVersions = (master.versions ?? []).length > 0;
+    const versionLabel = sheet.versionLabel ?? (hasVersions ? baseVersionLabel(master) : undefined);
+    // ใช้เลขประจำตัวจากกระดาษเมื่ออ่านได้ครบทุกหลัก
+    const paperId = idRead && !idRead.needsReview ? idRead.value : null;
+
+    const result: GradingResult = {
+      studentId: paperId ?? (existing.length + 1).toString(),
+      studentName: `นักเรียนคนที่ ${existing.length + 1}`,
+      score: scoreDetails(details),
+      total: totalPoints(versionMaster(master, versionLabel), subject.questionCount),
+      details,
+      versionLabel,
+      versionNeedsReview: sheet.versionNeedsReview || undefined,
+      alignmentConfidence: read.alignmentConfidence,
+      idRead,
+      imageUrl: read.pageImages[0],
+      extraPageImages: read.pageImages.length > 1 ? read.pageImages.slice(1) : undefined,
+      sourceFileName: sourceNames.length > 0 ? sourceNames.join(' + ') : undefined,
+      quality: read.quality.status !== 'pass' ? read.quality : undefined,
+      timestamp: Date.now()
+    };
+
+    return matchRoster(result, paperId, sourceNames[0], existing);
+  };
+
+  // จับคู่กับรายชื่อจากเลขประจำตัวบนกระดาษ หรือจากชื่อไฟล์หน้าแรก (ถ้านักเรียนคนนั้นยังไม่มีผลการตรวจ)
+  const matchRoster = (result: GradingResult, paperId: string | null, fileName: string | undefined, existing: GradingResult[]): GradingResult => {
+    const taken = new Set(existing.map(r => r.rosterId));
+    const available = roster.filter(r => !taken.has(r.id));
+    const entry = (paperId ? findByStudentCode(paperId, available) : undefined) ?? (fileName ? matchByFileName(fileName, available) : undefined);
+    return entry ? applyRosterEntry(result, entry) : result;
+  };
+
+  // ภาพที่คุณภาพไม่ผ่านไม่มีค่าที่อ่านได้ เก็บเพียงเหตุผลและชื่อไฟล์ไว้ในคิวถ่ายใหม่
+  const buildRetake = (read: SubmissionRead, sourceNames: string[], existing: GradingResult[]): GradingResult =>
+    matchRoster({
+      studentId: '',
+      studentName: sourceNames.join(' + '),
+      score: 0,
+      total: 0,
+      details: [],
+      sourceFileName: sourceNames.join(' + '),
+      quality: read.quality,
+      timestamp: Date.now()
+    }, null, sourceNames[0], existing);
+
   const handleStudentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || !masterConfig) return;
-    setIsProcessing(true);
-    const newResults: GradingResult[] = [];
-    
-    for (let i = 0; i < files.length; i++) {
-      const base64 = await fileToBase64(files[i]);
-      const img = new Image();
-      img.src = base64;
-      await new Promise(resolve => {
-        img.onload = () => {
-          const canvas = canvasRef.current!;
-          const ctx = canvas.getContext('2d')!;
-          canvas.width = img.width; canvas.height = img.height;
-          ctx.drawImage(img, 0, 0);
-          
-          const details = (Object.entries(masterConfig.correctAnswers) as [string, string][]).map(([qNum, correct]) => {
-            const num = parseInt(qNum);
-            const choices = masterConfig.boxes.filter(b => b.questionNumber === num);
-            const marks = choices.filter(c => checkInkDensity(ctx, c, img.width, img.height) > 0.1);
-            const ans = marks.length === 1 ? (marks[0].optionLabel as string) : "";
-            return {
-              question: num,
-              studentAnswer: ans,
-              correctAnswer: correct,
-              isCorrect: ans === correct,
-              isWarning: marks.length > 1
-            };
-          });
-          
-          newResults.push({
-            studentId: (gradingResults.length + newResults.length + 1).toString(),
-            studentName: `นักเรียนคนที่ ${gradingResults.length + newResults.length + 1}`,
-            score: details.filter(d => d.isCorrect).length,
-            total: subject.questionCount,
-            details,
-            timestamp: Date.now()
-          });
-          resolve(null);
-        };
+    const master = masterConfig;
+    if (!sessionId) setSessionId(createId());
+    // ข้อสอบหลายหน้า: ไฟล์เรียงตามชื่อแล้วจับเป็นชุดละจำนวนหน้า
+    const pagesPerStudent = pageCount(master);
+    const { groups, leftover } = groupPages(Array.from(files as ArrayLike<File>), pagesPerStudent);
+    e.target.value = '';
+    if (leftover.length > 0) {
+      setError(`ไฟล์ ${leftover.map(f => f.name).join(', ')} ไม่ครบชุด ${pagesPerStudent} หน้า จึงยังไม่ได้ตรวจ`);
+    }
+    if (groups.length === 0) return;
+
+    const jobs = groups.map(group => ({ name: group.map(f => f.name).join(' + '), sources: group }));
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setBatchItems(jobs.map(job => ({ name: job.name, status: 'queued' })));
+    setBatchRunning(true);
+
+    try {
+      const reads = await gradeBatch(jobs, master, {
+        signal: controller.signal,
+        onUpdate: (index, item) => setBatchItems(prev => prev && prev.map((it, i) => (i === index ? item : it)))
       });
+
+      // สร้างผลตามลำดับไฟล์ เพื่อให้ลำดับนักเรียนคงที่ไม่ขึ้นกับว่าไฟล์ไหนตรวจเสร็จก่อน
+      // ภาพที่คุณภาพไม่ผ่านเข้าคิวถ่ายใหม่แทนตารางผลการตรวจ
+      const newResults: GradingResult[] = [];
+      const rejected: GradingResult[] = [];
+      reads.forEach((read, i) => {
+        if (!read) return;
+        const names = groups[i].map(f => f.name);
+        if (read.quality.status === 'fail') rejected.push(buildRetake(read, names, [...resultsRef.current, ...newResults]));
+        else newResults.push(buildResult(read, names, [...resultsRef.current, ...newResults]));
+      });
+      addResults(newResults, rejected);
+
+      const allDone = reads.every(Boolean);
+      if (allDone) setBatchItems(null);
+      if (newResults.length + rejected.length > 0 && allDone) setStep('results');
+    } catch (err: any) {
+      setError("ตรวจกระดาษคำตอบไม่สำเร็จ: " + err.message);
+    } finally {
+      batchAbortRef.current = null;
+      setBatchRunning(false);
+    }
+  };
+
+  const handleCloseBatch = () => {
+    setBatchItems(null);
+    if (resultsRef.current.length > 0 || retakes.length > 0) setStep('results');
+  };
+
+  // ภาพจากโหมดกล้องเข้าสู่การตรวจทันทีเมื่อถ่ายครบทุกหน้าของนักเรียนหนึ่งคน
+  const handleCameraCapture = async (image: ImageData) => {
+    if (!masterConfig) return;
+    if (!sessionId) setSessionId(createId());
+    const pagesPerStudent = pageCount(masterConfig);
+    const captured = [...pendingPagesRef.current, image];
+    if (captured.length < pagesPerStudent) {
+      pendingPagesRef.current = captured;
+      setCameraTally(prev => ({ ...prev, pageHint: `ถ่ายหน้า ${captured.length + 1}/${pagesPerStudent} ต่อ` }));
+      return;
+    }
+    pendingPagesRef.current = [];
+
+    let result: GradingResult;
+    try {
+      const read = await readSubmission(captured, masterConfig);
+      if (read.quality.status === 'fail') {
+        // อยู่หน้ากล้องอยู่แล้ว ให้ถ่ายใหม่ทันทีแทนการเข้าคิว
+        setCameraTally(prev => ({
+          ...prev,
+          rejected: read.quality.reasons.join(' · '),
+          pageHint: pagesPerStudent > 1 ? `ถ่ายใหม่ตั้งแต่หน้า 1/${pagesPerStudent}` : undefined
+        }));
+        return;
+      }
+      // ภาพจากกล้องไม่มีชื่อไฟล์ให้จับคู่ ใช้เฉพาะเลขประจำตัวที่อ่านจากกระดาษ (ชื่อที่ตั้งจากเวลามีตัวเลขที่อาจตรงกับรหัสนักเรียน)
+      result = { ...buildResult(read, [], resultsRef.current), sourceFileName: `กล้อง ${new Date().toLocaleTimeString('th-TH')}` };
+    } catch (err: any) {
+      setError("ตรวจภาพจากกล้องไม่สำเร็จ: " + err.message);
+      return;
     }
-    setGradingResults(prev => [...prev, ...newResults].sort((a,b) => parseInt(a.studentId) - parseInt(b.studentId)));
-    setStep('results');
-    setIsProcessing(false);
+    addResults([result], []);
+    setCameraTally(prev => ({
+      count: prev.count + 1,
+      lastLabel: result.studentName,
+      lastScore: result.score,
+      lastTotal: result.total,
+      pageHint: pagesPerStudent > 1 ? `ถ่ายหน้า 1/${pagesPerStudent} ของคนถัดไป` : undefined
+    }));
+  };
+
+  const handleCloseCamera = () => {
+    setShowCamera(false);
+    if (cameraTally.count > 0) setStep('results');
   };
 
   return (
     <div className="min-h-screen bg-slate-50 font-['Kanit']">
-      <Header />
+      <Header onOpenLibrary={() => setStep('library')} onOpenSettings={() => setShowSettings(true)} />
       
       <main className="container mx-auto p-4 py-8 max-w-4xl">
-        {/* API Key Input Modal */}
-        {showKeyModal && (
-          <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
-            <div className="bg-white rounded-3xl shadow-2xl max-w-md w-full p-8 animate-fadeIn border border-blue-100">
-              <div className="text-center mb-6">
-                <div className="w-16 h-16 bg-blue-50 text-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
-                  <i className="fas fa-key text-2xl"></i>
-                </div>
-                <h2 className="text-2xl font-bold text-slate-800">ตั้งค่า API Key</h2>
-                <p className="text-slate-500 text-sm mt-2">กรุณากรอก Gemini API Key เพื่อเปิดใช้งานระบบ AI</p>
-              </div>
-              
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-xs font-bold text-slate-400 uppercase mb-2 ml-1">รหัส API Key</label>
-                  <input 
-                    type="password" 
-                    value={apiKeyInput}
-                    onChange={(e) => setApiKeyInput(e.target.value)}
-                    placeholder="ใสลับ API Key ของคุณที่นี่..."
-                    className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none transition-all font-mono"
-                  />
-                </div>
-                
-                <button 
-                  onClick={handleSaveKey}
-                  className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-200 transition-all flex items-center justify-center gap-2"
-                >
-                  <i className="fas fa-save"></i> บันทึกและเริ่มใช้งาน
-                </button>
-                
-                <div className="text-center">
-                  <a 
-                    href="https://aistudio.google.com/app/apikey" 
-                    target="_blank" 
-                    rel="noreferrer" 
-                    className="text-xs text-blue-600 hover:underline"
-                  >
-                    ขอ API Key ฟรีได้ที่ Google AI Studio
-                  </a>
-                </div>
-              </div>
-            </div>
-          </div>
+        {showSettings && (
+          <AiSettings
+            onClose={() => { setShowSettings(false); setError(null); }}
+            onSkip={() => { setShowSettings(false); setDetectionMode('local'); setError(null); }}
+          />
+        )}
+
+        {step === 'library' && (
+          <ExamLibrary onOpen={handleOpenExam} onClose={() => setStep(masterConfig ? 'grading' : 'setup')} />
         )}
 
         {/* Step 1: Setup */}
@@ -196,6 +625,19 @@ export default function App() {
                   onChange={e => setSubject({...subject, questionCount: parseInt(e.target.value) || 0})}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-2">จำนวนตัวเลือกต่อข้อ</label>
+                <select
+                  className="w-full border-2 border-slate-100 p-4 rounded-xl focus:border-blue-500 outline-none transition-all"
+                  value={subject.optionCount ?? DEFAULT_OPTION_COUNT}
+                  onChange={e => setSubject({...subject, optionCount: parseInt(e.target.value)})}
+                >
+                  {[2, 3, 4, 5].map(n => (
+                    <option key={n} value={n}>{n} ตัวเลือก ({OPTION_LABELS.slice(0, n).join(' ')})</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-400 mt-1">ข้อแบบถูก/ผิดบนกระดาษเดียวกันจะตรวจพบเป็นข้อละ 2 ช่องโดยอัตโนมัติ</p>
+              </div>
               <button 
                 disabled={!subject.name || subject.questionCount <= 0}
                 onClick={() => setStep('master')}
@@ -215,8 +657,23 @@ export default function App() {
             <label className="border-4 border-dashed border-slate-100 rounded-3xl p-12 block cursor-pointer hover:bg-slate-50 transition-all">
               <i className="fas fa-cloud-upload-alt text-5xl text-blue-500 mb-4"></i>
               <span className="block text-lg font-bold">เลือกไฟล์ภาพเฉลย</span>
-              <input type="file" className="hidden" accept="image/*" onChange={handleMasterUpload} />
+              <span className="text-sm text-slate-400">ข้อสอบหลายหน้า เลือกภาพทุกหน้าพร้อมกัน (เรียงหน้าตามชื่อไฟล์)</span>
+              <input type="file" className="hidden" accept="image/*" multiple onChange={handleMasterUpload} />
             </label>
+            <div className="mt-6 flex items-center justify-center gap-2 text-sm">
+              <span className="text-slate-500">วิธีหาช่องคำตอบ:</span>
+              <select value={detectionMode} onChange={e => setDetectionMode(e.target.value as MasterDetectionMode)} className="border rounded-lg p-1.5 font-bold">
+                <option value="local">ในเครื่อง (ใช้ AI สำรองเมื่อหาไม่พบ)</option>
+                <option value="both">ในเครื่อง และให้ AI ตรวจซ้ำ</option>
+                <option value="ai">ใช้ AI (ต้องมีอินเทอร์เน็ต)</option>
+              </select>
+            </div>
+            <TemplateManager
+              questionCount={subject.questionCount}
+              optionCount={subject.optionCount ?? DEFAULT_OPTION_COUNT}
+              subjectName={subject.name}
+              onUse={handleUseTemplate}
+            />
             <button onClick={() => setStep('setup')} className="mt-6 text-slate-400 hover:text-blue-600">ย้อนกลับ</button>
           </div>
         )}
@@ -227,40 +684,161 @@ export default function App() {
             <div className="flex justify-between items-center mb-6 border-b pb-4">
               <div>
                 <h2 className="text-2xl font-bold text-green-600">3. ตรวจสอบข้อมูลเฉลย</h2>
-                <p className="text-slate-500 text-sm italic">วิชา: {subject.name}</p>
+                <p className="text-slate-500 text-sm italic">
+                  วิชา: {subject.name}
+                  {pageCount(masterConfig) > 1 && ` · ${pageCount(masterConfig)} หน้า`}
+                </p>
+                {masterConfig.idGrid && masterConfig.idGrid.length > 0 && (
+                  <p className="text-slate-500 text-xs mt-1">
+                    <i className="fas fa-id-card mr-1"></i>
+                    พบช่องระบายเลขประจำตัว {new Set(masterConfig.idGrid.map(b => b.column)).size} หลัก
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-col items-end gap-2">
+                <button onClick={() => setStep('master')} className="text-slate-400 hover:text-blue-600 text-sm">เปลี่ยนภาพเฉลย</button>
+                {masterConfig.templateId ? (
+                  <span className="text-xs text-green-600"><i className="fas fa-check mr-1"></i>ใช้แม่แบบกระดาษคำตอบ</span>
+                ) : (
+                  <button onClick={handleSaveTemplate} className="text-xs text-blue-600 hover:underline">
+                    <i className="fas fa-save mr-1"></i>บันทึกตำแหน่งช่องเป็นแม่แบบ
+                  </button>
+                )}
               </div>
-              <button onClick={() => setStep('master')} className="text-slate-400 hover:text-blue-600 text-sm">เปลี่ยนภาพเฉลย</button>
             </div>
+
+            {detectionReport && (
+              <div className="mb-4 space-y-2 text-sm">
+                <p className="text-slate-500">
+                  <i className={`fas ${detectionReport.source === 'local' ? 'fa-microchip' : 'fa-robot'} mr-1`}></i>
+                  {detectionReport.source === 'local' ? 'หาช่องคำตอบในเครื่อง' : 'หาช่องคำตอบด้วย AI'}
+                  {detectionReport.fallbackReason && ` (ตรวจในเครื่องไม่สำเร็จ: ${detectionReport.fallbackReason})`}
+                </p>
+                {detectionReport.unmarkedQuestions.length > 0 && (
+                  <p className="p-3 bg-amber-50 text-amber-700 rounded-lg border border-amber-100">
+                    <i className="fas fa-exclamation-circle mr-1"></i>
+                    หาช่องเฉลยไม่พบในข้อ {detectionReport.unmarkedQuestions.join(', ')} กรุณาเลือกเฉลยเอง
+                  </p>
+                )}
+                {detectionReport.missingIdRegions && (
+                  <div className="p-3 bg-amber-50 text-amber-700 rounded-lg border border-amber-100 flex flex-wrap items-center gap-2">
+                    <span className="flex-grow">
+                      <i className="fas fa-id-card mr-1"></i>
+                      ไม่พบช่องระบายเลขประจำตัวและชุดข้อสอบ กระดาษที่ตรวจจะอ่านเลขประจำตัวและชุดข้อสอบไม่ได้ (ต้องจับคู่รายชื่อและเลือกชุดเอง)
+                    </span>
+                    <button onClick={handleFindIdRegions} className="px-3 py-1 rounded-lg bg-white border border-amber-200 text-xs font-bold hover:bg-amber-100">
+                      <i className="fas fa-robot mr-1"></i>ให้ AI หาช่องเหล่านี้
+                    </button>
+                  </div>
+                )}
+                {detectionReport.crossCheckError && (
+                  <p className="p-3 bg-amber-50 text-amber-700 rounded-lg border border-amber-100">
+                    <i className="fas fa-robot mr-1"></i>
+                    ตรวจเฉลยซ้ำด้วย AI ไม่สำเร็จ ({detectionReport.crossCheckError}) ใช้ผลจากการตรวจในเครื่อง กรุณาตรวจสอบเฉลยเอง
+                  </p>
+                )}
+                {detectionReport.aiAnswers && (
+                  <p className={`p-3 rounded-lg border ${detectionReport.mismatches.length > 0 ? 'bg-red-50 text-red-700 border-red-100' : 'bg-green-50 text-green-700 border-green-100'}`}>
+                    <i className="fas fa-robot mr-1"></i>
+                    {detectionReport.mismatches.length > 0
+                      ? `เฉลยจาก AI ไม่ตรงกับที่อ่านในเครื่อง ${detectionReport.mismatches.length} ข้อ (แถบสีแดง) กรุณาตรวจสอบ`
+                      : 'เฉลยจาก AI ตรงกับที่อ่านในเครื่องทุกข้อ'}
+                  </p>
+                )}
+              </div>
+            )}
             
-            <div className="max-h-96 overflow-y-auto border rounded-xl mb-6 bg-slate-50/30">
-              <table className="w-full">
-                <thead className="bg-slate-100 sticky top-0 shadow-sm">
+            <button
+              onClick={() => setShowLayoutEditor(!showLayoutEditor)}
+              className="w-full flex justify-between items-center text-sm font-bold text-slate-600 mb-3 hover:text-blue-600"
+            >
+              <span>
+                <i className="fas fa-vector-square mr-2"></i>แก้ไขตำแหน่งช่องคำตอบบนภาพ
+                {validateLayout(masterConfig.boxes, subject.questionCount).length > 0 && (
+                  <span className="ml-2 text-xs text-amber-600"><i className="fas fa-exclamation-triangle mr-1"></i>มีคำเตือน</span>
+                )}
+              </span>
+              <i className={`fas fa-chevron-${showLayoutEditor ? 'up' : 'down'}`}></i>
+            </button>
+            {showLayoutEditor && (
+              <LayoutEditor master={masterConfig} questionCount={subject.questionCount} onChange={setMasterConfig} />
+            )}
+
+            <div className="max-h-96 overflow-y-auto border rounded-xl mb-2 bg-slate-50/30">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-100 sticky top-0 shadow-sm z-10">
                   <tr>
-                    <th className="p-3 text-left border-b w-1/2">ข้อที่</th>
-                    <th className="p-3 text-center border-b w-1/2">คำตอบเฉลย</th>
+                    <th className="p-3 text-left border-b">ข้อที่</th>
+                    <th className="p-3 text-center border-b">คำตอบเฉลย</th>
+                    <th className="p-3 text-center border-b">รับคำตอบเพิ่ม</th>
+                    <th className="p-3 text-center border-b">คะแนน</th>
+                    <th className="p-3 text-center border-b">การให้คะแนน</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y">
                   {Array.from({length: subject.questionCount}).map((_, i) => {
                     const qNum = i + 1;
+                    const rule = masterConfig.questionRules?.[qNum] ?? {};
+                    const primary = masterConfig.correctAnswers[qNum] || '';
+                    const alsoAccept = rule.alsoAccept ?? [];
+                    const options = questionOptions(masterConfig, qNum, subject.optionCount);
+                    const mismatch = detectionReport?.mismatches.includes(qNum);
                     return (
-                      <tr key={qNum} className="hover:bg-white transition-colors">
-                        <td className="p-3 font-bold text-slate-600 px-6">ข้อที่ {qNum}</td>
+                      <tr key={qNum} className={`hover:bg-white transition-colors ${mismatch ? 'bg-red-50' : rule.policy && rule.policy !== 'normal' ? 'bg-amber-50/50' : ''}`}>
+                        <td className="p-3 font-bold text-slate-600 px-6">
+                          ข้อที่ {qNum}
+                          {mismatch && (
+                            <span className="block text-xs font-normal text-red-600">AI อ่านได้: {detectionReport?.aiAnswers?.[qNum] || '-'}</span>
+                          )}
+                        </td>
                         <td className="p-3 text-center">
                           <select 
-                            value={masterConfig.correctAnswers[qNum] || ''}
+                            value={primary}
                             onChange={(e) => setMasterConfig({
                               ...masterConfig, 
                               correctAnswers: {...masterConfig.correctAnswers, [qNum]: e.target.value}
                             })}
-                            className="border-2 border-slate-200 p-2 rounded-lg w-24 text-center font-bold text-blue-600 focus:border-blue-400 outline-none transition-all"
+                            className="border-2 border-slate-200 p-2 rounded-lg w-20 text-center font-bold text-blue-600 focus:border-blue-400 outline-none transition-all"
                           >
                             <option value="">-</option>
-                            <option value="ก">ก</option>
-                            <option value="ข">ข</option>
-                            <option value="ค">ค</option>
-                            <option value="ง">ง</option>
-                            <option value="จ">จ</option>
+                            {options.map(label => <option key={label} value={label}>{label}</option>)}
+                          </select>
+                        </td>
+                        <td className="p-3 text-center whitespace-nowrap">
+                          {options.filter(label => label !== primary).map(label => {
+                            const active = alsoAccept.includes(label);
+                            return (
+                              <button
+                                key={label}
+                                onClick={() => updateQuestionRule(qNum, {
+                                  alsoAccept: active ? alsoAccept.filter(a => a !== label) : [...alsoAccept, label]
+                                })}
+                                className={`w-7 h-7 mx-0.5 rounded-md border text-xs font-bold ${active ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-400 hover:bg-white'}`}
+                              >
+                                {label}
+                              </button>
+                            );
+                          })}
+                        </td>
+                        <td className="p-3 text-center">
+                          <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={rule.points ?? 1}
+                            onChange={e => updateQuestionRule(qNum, { points: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="border-2 border-slate-200 p-1.5 rounded-lg w-16 text-center focus:border-blue-400 outline-none"
+                          />
+                        </td>
+                        <td className="p-3 text-center">
+                          <select
+                            value={rule.policy ?? 'normal'}
+                            onChange={e => updateQuestionRule(qNum, { policy: e.target.value as QuestionPolicy })}
+                            className="border-2 border-slate-200 p-1.5 rounded-lg text-xs focus:border-blue-400 outline-none"
+                          >
+                            {(Object.keys(POLICY_LABELS) as QuestionPolicy[]).map(p => (
+                              <option key={p} value={p}>{POLICY_LABELS[p]}</option>
+                            ))}
                           </select>
                         </td>
                       </tr>
@@ -269,9 +847,15 @@ export default function App() {
                 </tbody>
               </table>
             </div>
+            <p className="text-right text-sm text-slate-500 mb-6">
+              คะแนนเต็มทั้งฉบับ <span className="font-bold text-blue-600">{totalPoints(masterConfig, subject.questionCount)}</span> คะแนน
+            </p>
+
+            <VersionEditor master={masterConfig} questionCount={subject.questionCount} onChange={setMasterConfig} />
+            <WrittenRegionEditor master={masterConfig} onChange={setMasterConfig} />
             
             <button 
-              onClick={() => setStep('grading')}
+              onClick={handleConfirmMaster}
               className="w-full bg-green-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-green-700 shadow-lg"
             >
               ยืนยันเฉลยและเริ่มตรวจข้อสอบนักเรียน
@@ -287,9 +871,46 @@ export default function App() {
             <label className="border-4 border-dashed border-blue-100 bg-blue-50/50 rounded-3xl p-12 block cursor-pointer hover:bg-blue-50 transition-all border-spacing-4">
               <i className="fas fa-camera text-5xl text-blue-600 mb-4"></i>
               <span className="block text-xl font-bold text-blue-800">อัปโหลดกระดาษคำตอบนักเรียน</span>
-              <span className="text-sm text-blue-600 opacity-70">เลือกได้หลายไฟล์พร้อมกันเพื่อตรวจเป็นชุด</span>
+              <span className="text-sm text-blue-600 opacity-70">
+                {pageCount(masterConfig!) > 1
+                  ? `ข้อสอบ ${pageCount(masterConfig!)} หน้า: ตั้งชื่อไฟล์ให้เรียงหน้าของแต่ละคนต่อกัน (เช่น 01-1, 01-2, 02-1, ...)`
+                  : 'เลือกได้หลายไฟล์พร้อมกันเพื่อตรวจเป็นชุด'}
+              </span>
               <input type="file" className="hidden" accept="image/*" multiple onChange={handleStudentUpload} />
             </label>
+            <button
+              onClick={() => {
+                pendingPagesRef.current = [];
+                setCameraTally({ count: 0, pageHint: pageCount(masterConfig!) > 1 ? `ถ่ายหน้า 1/${pageCount(masterConfig!)}` : undefined });
+                setShowCamera(true);
+              }}
+              className="mt-4 w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 flex items-center justify-center gap-2"
+            >
+              <i className="fas fa-video"></i> ถ่ายด้วยกล้อง (ตรวจต่อเนื่องทีละแผ่น)
+            </button>
+            {masterConfig && (masterConfig.versions ?? []).length > 0 && (
+              <div className="mt-6 flex items-center justify-center gap-2 text-sm">
+                <span className="text-slate-500">ชุดข้อสอบของกระดาษที่จะอัปโหลด:</span>
+                <select value={uploadVersion} onChange={e => setUploadVersion(e.target.value)} className="border rounded-lg p-1.5 font-bold">
+                  <option value="">{(masterConfig.versionBoxes ?? []).length > 0 ? 'อ่านจากกระดาษอัตโนมัติ' : `ชุด ${baseVersionLabel(masterConfig)}`}</option>
+                  {versionLabels(masterConfig).map(l => <option key={l} value={l}>ชุด {l}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="mt-6 flex flex-col md:flex-row items-center justify-center gap-3 text-sm">
+              <span className="text-slate-500">
+                {roster.length > 0 ? `รายชื่อนักเรียน ${roster.length} คน (จับคู่จากชื่อไฟล์ภาพอัตโนมัติ)` : 'ยังไม่ได้นำเข้ารายชื่อนักเรียน'}
+              </span>
+              <label className="border border-slate-200 px-3 py-1.5 rounded-lg font-bold text-slate-600 cursor-pointer hover:bg-slate-50">
+                <i className="fas fa-users mr-1"></i> {roster.length > 0 ? 'เปลี่ยนรายชื่อ' : 'นำเข้ารายชื่อ (CSV/Excel)'}
+                <input type="file" className="hidden" accept=".csv,.txt,.xlsx" onChange={handleRosterUpload} />
+              </label>
+            </div>
+            {retakes.length > 0 && (
+              <p className="mt-6 text-sm text-red-600">
+                <i className="fas fa-redo mr-1"></i> มีภาพรอถ่ายใหม่ {retakes.length} แผ่น (ดูรายละเอียดในหน้าผลการตรวจ)
+              </p>
+            )}
             <button onClick={() => setStep('verify')} className="mt-6 text-slate-400 hover:text-blue-600">ย้อนกลับไปดูเฉลย</button>
           </div>
         )}
@@ -300,18 +921,35 @@ export default function App() {
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
               <div>
                 <h2 className="text-2xl font-bold">ผลการตรวจ: {subject.name}</h2>
-                <p className="text-slate-500 text-sm">เรียงตามลำดับการอัปโหลด (สามารถส่งออกเพื่อนำไปเรียงลำดับใน Excel ได้)</p>
+                <p className="text-slate-500 text-sm">
+                  {roster.length > 0 ? 'เรียงตามเลขที่ในรายชื่อ (เลือกชื่อนักเรียนเพื่อแก้การจับคู่ได้)' : 'เรียงตามลำดับการอัปโหลด (สามารถส่งออกเพื่อนำไปเรียงลำดับใน Excel ได้)'}
+                </p>
               </div>
               <div className="flex gap-2 w-full md:w-auto">
-                <button onClick={() => window.print()} className="flex-1 md:flex-none bg-white border border-slate-200 px-4 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-slate-50">
+                {masterConfig && gradingResults.length > 0 && (
+                  <button onClick={handlePrintSlips} className="flex-1 md:flex-none bg-white border border-slate-200 px-4 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-slate-50">
+                    <i className="fas fa-print text-slate-500"></i> ใบแจ้งผลรายคน
+                  </button>
+                )}
+                <button onClick={() => exportResultsXlsx(subject, masterConfig, gradingResults, roster)} className="flex-1 md:flex-none bg-white border border-slate-200 px-4 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-slate-50">
                   <i className="fas fa-file-excel text-green-600"></i> ส่งออก Excel
                 </button>
+                <button onClick={() => exportResultsCsv(subject, masterConfig, gradingResults, roster)} className="flex-1 md:flex-none bg-white border border-slate-200 px-4 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 hover:bg-slate-50">
+                  <i className="fas fa-file-csv text-slate-500"></i> CSV
+                </button>
                 <button onClick={() => setStep('grading')} className="flex-1 md:flex-none bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-700">
                   ตรวจเพิ่ม
                 </button>
               </div>
             </div>
 
+            {retakes.length > 0 && (
+              <RetakeQueue
+                items={retakes}
+                onRemove={index => setRetakes(prev => prev.filter((_, i) => i !== index))}
+              />
+            )}
+
             <div className="bg-white rounded-2xl shadow-sm border overflow-hidden">
               <div className="overflow-x-auto">
                 <table className="w-full text-left border-collapse min-w-[600px]">
@@ -327,13 +965,45 @@ export default function App() {
                     {gradingResults.map((res, idx) => (
                       <tr key={idx} className="hover:bg-slate-50 transition-colors">
                         <td className="p-4 font-bold text-slate-700">{res.studentId}</td>
-                        <td className="p-4 text-slate-600">{res.studentName}</td>
+                        <td className="p-4 text-slate-600">
+                          {roster.length > 0 ? (
+                            <select
+                              value={res.rosterId ?? ''}
+                              onChange={e => handleAssignStudent(idx, e.target.value)}
+                              className={`border rounded-lg p-1 text-sm max-w-[220px] ${res.rosterId ? 'border-slate-200' : 'border-amber-300 bg-amber-50'}`}
+                            >
+                              <option value="">{res.rosterId ? '- ยกเลิกการจับคู่ -' : `ยังไม่จับคู่ (${res.sourceFileName ?? res.studentName})`}</option>
+                              {roster.map(entry => (
+                                <option key={entry.id} value={entry.id}>{entry.number}. {entry.name}</option>
+                              ))}
+                            </select>
+                          ) : res.studentName}
+                          {masterConfig && (masterConfig.versions ?? []).length > 0 && (
+                            <div className="mt-1 flex items-center gap-1 text-[11px]">
+                              <span className="text-slate-400">ชุด</span>
+                              <select
+                                value={res.versionLabel ?? baseVersionLabel(masterConfig)}
+                                onChange={e => handleChangeVersion(idx, e.target.value)}
+                                className={`border rounded p-0.5 font-bold ${res.versionNeedsReview ? 'border-amber-300 bg-amber-50 text-amber-700' : 'border-slate-200'}`}
+                              >
+                                {versionLabels(masterConfig).map(l => <option key={l} value={l}>{l}</option>)}
+                              </select>
+                              {res.versionNeedsReview && <span className="text-amber-600">อ่านชุดไม่ชัด</span>}
+                            </div>
+                          )}
+                        </td>
                         <td className="p-4">
                           <span className="text-xl font-bold text-blue-600">{res.score}</span>
                           <span className="text-slate-400 text-sm"> / {res.total}</span>
+                          <span className="ml-2 text-xs font-bold text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                            เกรด {resultGrade(res, gradeScaleOf(masterConfig))}
+                          </span>
                         </td>
                         <td className="p-4 text-right">
-                          {res.details.some(d => d.isWarning) ? (
+                          <button onClick={() => setReviewIndex(idx)} className="text-blue-600 text-[10px] font-bold mr-2 hover:underline">
+                            <i className="fas fa-search mr-1"></i> ตรวจทาน
+                          </button>
+                          {res.details.some(d => d.isWarning && !d.override) ? (
                             <span className="text-amber-600 text-[10px] font-bold bg-amber-50 px-2 py-1 rounded-full border border-amber-100">
                               <i className="fas fa-exclamation-circle mr-1"></i> มีรอยซ้ำ
                             </span>
@@ -342,6 +1012,44 @@ export default function App() {
                               <i className="fas fa-check-circle mr-1"></i> เรียบร้อย
                             </span>
                           )}
+                          {res.idRead?.needsReview && (
+                            <div className="text-[10px] mt-1 text-amber-600">
+                              เลขประจำตัวไม่ชัด ({res.idRead.value})
+                            </div>
+                          )}
+                          {countLowConfidence(res.details) > 0 && (
+                            <div className="text-[10px] mt-1 text-amber-600">
+                              อ่านไม่ชัด {countLowConfidence(res.details)} ข้อ
+                            </div>
+                          )}
+                          {masterConfig && unconfirmedWritten([res], masterConfig) > 0 && (
+                            <div className="text-[10px] mt-1 text-amber-600">
+                              ข้อเขียนรอยืนยันคะแนน {unconfirmedWritten([res], masterConfig)} ข้อ
+                            </div>
+                          )}
+                          {res.quality && (
+                            <div className={`text-[10px] mt-1 ${res.quality.status === 'fail' ? 'text-red-600' : 'text-amber-600'}`} title={res.quality.reasons.join('\n')}>
+                              <i className="fas fa-image mr-1"></i>{res.quality.reasons[0]}
+                              {res.quality.reasons.length > 1 && ` (+${res.quality.reasons.length - 1})`}
+                            </div>
+                          )}
+                          {res.alignmentConfidence !== undefined && (
+                            <div className={`text-[10px] mt-1 ${res.alignmentConfidence < 0.5 ? 'text-amber-600' : 'text-slate-400'}`}>
+                              จัดแนวภาพ {Math.round(res.alignmentConfidence * 100)}%
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    {findAbsentees(roster, gradingResults).map(entry => (
+                      <tr key={entry.id} className="bg-slate-50/50 text-slate-400">
+                        <td className="p-4 font-bold">{entry.number}</td>
+                        <td className="p-4">{entry.name}</td>
+                        <td className="p-4">-</td>
+                        <td className="p-4 text-right">
+                          <span className="text-slate-500 text-[10px] font-bold bg-slate-100 px-2 py-1 rounded-full border">
+                            <i className="fas fa-user-slash mr-1"></i> ขาดสอบ
+                          </span>
                         </td>
                       </tr>
                     ))}
@@ -350,11 +1058,83 @@ export default function App() {
               </div>
             </div>
             
+            {masterConfig && gradingResults.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border overflow-hidden mt-6">
+                <div className="p-4 border-b font-bold text-slate-700">
+                  <i className="fas fa-robot mr-2 text-purple-600"></i> ใช้ AI ช่วยตรวจ (ไม่บังคับ)
+                </div>
+                {(masterConfig.writtenRegions ?? []).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3 p-4 border-b text-sm">
+                    <span className="text-slate-600">
+                      ข้อเขียนที่ครูยังไม่ยืนยันคะแนน <span className="font-bold">{unconfirmedWritten(gradingResults, masterConfig)}</span> ข้อ
+                    </span>
+                    <button
+                      onClick={() => handleProposeWritten(gradingResults.map((_, i) => i))}
+                      disabled={aiRunning || aiUsage.calls >= aiUsage.cap || unconfirmedWritten(gradingResults, masterConfig) === 0}
+                      className="ml-auto border border-purple-200 text-purple-700 px-4 py-2 rounded-lg text-sm font-bold hover:bg-purple-50 disabled:opacity-40"
+                    >
+                      <i className="fas fa-pen-fancy mr-2"></i>ให้ AI เสนอคะแนนข้อเขียน
+                    </button>
+                  </div>
+                )}
+                <AiRecheckPanel
+                  results={gradingResults}
+                  usage={aiUsage}
+                  running={aiRunning}
+                  message={aiMessage}
+                  onStart={handleAiRecheck}
+                  onCapChange={cap => setAiUsage(prev => ({ ...prev, cap }))}
+                  onResolve={handleResolveOpinion}
+                  onResolveAll={handleResolveAllOpinions}
+                  onOpenReview={setReviewIndex}
+                />
+              </div>
+            )}
+
+            {masterConfig && gradingResults.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border overflow-hidden mt-6">
+                <button onClick={() => setShowGradeScale(!showGradeScale)} className="w-full p-4 flex justify-between items-center font-bold text-slate-700 hover:bg-slate-50">
+                  <span><i className="fas fa-graduation-cap mr-2 text-blue-600"></i> เกณฑ์การตัดเกรด: {gradeScaleOf(masterConfig).name}</span>
+                  <i className={`fas fa-chevron-${showGradeScale ? 'up' : 'down'} text-slate-400`}></i>
+                </button>
+                {showGradeScale && (
+                  <GradeScaleEditor scale={gradeScaleOf(masterConfig)} results={gradingResults} onSave={handleSaveGradeScale} />
+                )}
+              </div>
+            )}
+
+            {masterConfig && gradingResults.length > 0 && (
+              <div className="bg-white rounded-2xl shadow-sm border overflow-hidden mt-6">
+                <button onClick={() => setShowItemStats(!showItemStats)} className="w-full p-4 flex justify-between items-center font-bold text-slate-700 hover:bg-slate-50">
+                  <span><i className="fas fa-chart-bar mr-2 text-blue-600"></i> วิเคราะห์ข้อสอบ{(masterConfig.versions ?? []).length > 0 ? ' (รวมทุกชุด ตามลำดับข้อของชุดหลัก)' : ''}</span>
+                  <i className={`fas fa-chevron-${showItemStats ? 'up' : 'down'} text-slate-400`}></i>
+                </button>
+                {showItemStats && <ItemAnalysisReport results={gradingResults} master={masterConfig} />}
+              </div>
+            )}
+
+            {masterConfig && gradingResults.length > 1 && (
+              <div className="bg-white rounded-2xl shadow-sm border overflow-hidden mt-6">
+                <button onClick={() => setShowSimilarity(!showSimilarity)} className="w-full p-4 flex justify-between items-center font-bold text-slate-700 hover:bg-slate-50">
+                  <span><i className="fas fa-user-secret mr-2 text-blue-600"></i> ตรวจความคล้ายของคำตอบ (สงสัยการลอก)</span>
+                  <i className={`fas fa-chevron-${showSimilarity ? 'up' : 'down'} text-slate-400`}></i>
+                </button>
+                {showSimilarity && <SimilarityReport results={gradingResults} master={masterConfig} onOpenReview={setReviewIndex} />}
+              </div>
+            )}
+
             <button 
               onClick={() => {
                 setStep('setup');
                 setGradingResults([]);
+                setRetakes([]);
+                setAiUsage({ calls: 0, cap: DEFAULT_AI_CALL_CAP });
+                setAiMessage(null);
                 setMasterConfig(null);
+                setExamId(null);
+                setSessionId(null);
+                setRoster([]);
+                setDetectionReport(null);
               }} 
               className="mt-8 text-slate-400 hover:text-blue-600 block mx-auto underline text-sm"
             >
@@ -363,6 +1143,30 @@ export default function App() {
           </div>
         )}
 
+        {reviewIndex !== null && masterConfig && gradingResults[reviewIndex] && (
+          <ReviewPanel
+            result={gradingResults[reviewIndex]}
+            master={masterConfig}
+            onChange={updated => setGradingResults(prev => prev.map((r, i) => (i === reviewIndex ? updated : r)))}
+            onClose={() => setReviewIndex(null)}
+            onProposeWritten={() => handleProposeWritten([reviewIndex])}
+            proposing={aiRunning}
+          />
+        )}
+
+        {showCamera && masterConfig && (
+          <CameraCapture tally={cameraTally} onCapture={handleCameraCapture} onClose={handleCloseCamera} />
+        )}
+
+        {batchItems && (
+          <BatchProgress
+            items={batchItems}
+            running={batchRunning}
+            onCancel={() => batchAbortRef.current?.abort()}
+            onClose={handleCloseBatch}
+          />
+        )}
+
         {isProcessing && (
           <div className="fixed inset-0 bg-slate-900/70 backdrop-blur-sm z-[200] flex flex-col items-center justify-center text-white p-6 text-center">
             <div className="w-16 h-16 border-4 border-blue-400 border-t-transparent rounded-full animate-spin mb-6"></div>
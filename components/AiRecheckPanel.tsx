@@ -0,0 +1,80 @@
+import React from 'react';
+import { AiUsage, GradingResult } from '../types.ts';
+import { pendingOpinions, recheckCandidates } from '../services/aiRecheck.ts';
+
+interface AiRecheckPanelProps {
+  results: GradingResult[];
+  usage: AiUsage;
+  running: boolean;
+  message: string | null;
+  onStart: () => void;
+  onCapChange: (cap: number) => void;
+  onResolve: (index: number, question: number, accept: boolean) => void;
+  onResolveAll: (accept: boolean) => void;
+  onOpenReview: (index: number) => void;
+}
+
+export default function AiRecheckPanel({
+  results, usage, running, message, onStart, onCapChange, onResolve, onResolveAll, onOpenReview
+}: AiRecheckPanelProps) {
+  const candidates = recheckCandidates(results);
+  const pending = pendingOpinions(results);
+  const remaining = Math.max(0, usage.cap - usage.calls);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-slate-600">
+          ข้อที่เครื่องอ่านไม่ชัดและยังไม่ได้ตรวจซ้ำ <span className="font-bold">{candidates}</span> ข้อ
+        </span>
+        <span className="text-slate-400 text-xs flex items-center gap-1">
+          ใช้ AI ไปแล้ว {usage.calls} /
+          <input
+            type="number"
+            min={usage.calls}
+            value={usage.cap}
+            onChange={e => onCapChange(Math.max(usage.calls, parseInt(e.target.value) || 0))}
+            className="border rounded p-0.5 w-14 text-center"
+          />
+          ครั้งในรอบการตรวจนี้
+        </span>
+        <button
+          onClick={onStart}
+          disabled={running || candidates === 0 || remaining === 0}
+          className="ml-auto bg-purple-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-purple-700 disabled:opacity-40"
+        >
+          {running ? <><i className="fas fa-spinner fa-spin mr-2"></i>กำลังตรวจซ้ำ...</> : <><i className="fas fa-robot mr-2"></i>ส่งให้ AI ตรวจซ้ำ</>}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">ส่งเฉพาะภาพแถวคำตอบของข้อที่ไม่ชัด แผ่นละ 1 ครั้ง คำตอบของ AI จะไม่ถูกนำไปใช้จนกว่าครูจะยืนยัน</p>
+      {message && <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2">{message}</p>}
+
+      {pending.length > 0 && (
+        <div className="border rounded-xl overflow-hidden">
+          <div className="flex items-center justify-between p-3 bg-slate-50 border-b">
+            <span className="text-sm font-bold text-slate-700">AI อ่านไม่ตรงกับเครื่อง {pending.length} ข้อ รอครูยืนยัน</span>
+            <span className="flex gap-2">
+              <button onClick={() => onResolveAll(true)} className="text-xs font-bold text-purple-600 hover:underline">ใช้คำตอบ AI ทั้งหมด</button>
+              <button onClick={() => onResolveAll(false)} className="text-xs font-bold text-slate-500 hover:underline">คงเดิมทั้งหมด</button>
+            </span>
+          </div>
+          <ul className="divide-y max-h-72 overflow-y-auto">
+            {pending.map(({ index, result, detail }) => (
+              <li key={`${index}-${detail.question}`} className="p-3 flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-bold text-slate-700 min-w-[160px]">{result.studentName}</span>
+                <span className="text-slate-500">ข้อ {detail.question}</span>
+                <span className="text-slate-500">เครื่องอ่าน <span className="font-bold">{detail.studentAnswer || 'ว่าง'}</span></span>
+                <span className="text-purple-600">AI อ่าน <span className="font-bold">{detail.aiOpinion!.answer || 'ว่าง'}</span></span>
+                <span className="ml-auto flex gap-1">
+                  <button onClick={() => onOpenReview(index)} className="text-xs px-2 py-1 rounded border text-slate-500 hover:bg-slate-50">ดูภาพ</button>
+                  <button onClick={() => onResolve(index, detail.question, true)} className="text-xs px-2 py-1 rounded bg-purple-600 text-white font-bold hover:bg-purple-700">ใช้คำตอบ AI</button>
+                  <button onClick={() => onResolve(index, detail.question, false)} className="text-xs px-2 py-1 rounded border text-slate-600 hover:bg-slate-50">คงเดิม</button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
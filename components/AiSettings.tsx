@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { VisionProviderId, VisionSettings, VisionTask } from '../types.ts';
+import {
+  DEFAULT_MODELS, isVisionConfigured, loadVisionSettings, PROVIDER_LABELS, recordedResponses, saveVisionSettings
+} from '../services/visionProvider.ts';
+import { downloadBlob } from '../services/exporter.ts';
+
+interface AiSettingsProps {
+  onClose: () => void;
+  onSkip: () => void; // ใช้งานเฉพาะการตรวจในเครื่อง ไม่ใช้ AI
+}
+
+const TASK_LABELS: Record<VisionTask, string> = {
+  master: 'หาช่องและเฉลยจากต้นแบบ',
+  recheck: 'ตรวจซ้ำข้อที่ไม่ชัด',
+  written: 'เสนอคะแนนข้อเขียน'
+};
+
+export default function AiSettings({ onClose, onSkip }: AiSettingsProps) {
+  const [settings, setSettings] = useState<VisionSettings>(loadVisionSettings);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const recorded = recordedResponses();
+  const mockTasks = Object.keys(settings.mockResponses ?? {}) as VisionTask[];
+
+  const update = (patch: Partial<VisionSettings>) => {
+    setSettings({ ...settings, ...patch });
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!isVisionConfigured(settings)) {
+      setError(settings.provider === 'openai' ? "กรุณาระบุที่อยู่เซิร์ฟเวอร์ (Base URL)" : "กรุณากรอก API Key ก่อนเริ่มต้นใช้งาน");
+      return;
+    }
+    try {
+      saveVisionSettings({ ...settings, apiKey: settings.apiKey.trim(), model: settings.model.trim() });
+      onClose();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleImportMock = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const data = JSON.parse(await file.text());
+      const tasks = (Object.keys(TASK_LABELS) as VisionTask[]).filter(t => data[t] !== undefined);
+      if (tasks.length === 0) throw new Error("ไม่พบคำตอบจำลองในไฟล์ (ต้องมี master, recheck หรือ written)");
+      update({ mockResponses: { ...settings.mockResponses, ...Object.fromEntries(tasks.map(t => [t, data[t]])) } });
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? "ไฟล์ไม่ใช่ JSON ที่ถูกต้อง" : err.message);
+    }
+  };
+
+  const handleExportMock = () => {
+    const data = { ...settings.mockResponses, ...recorded };
+    downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), 'คำตอบจำลอง_AI.json');
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-xl border border-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-200 outline-none transition-all";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl max-w-md w-full p-8 animate-fadeIn border border-blue-100 max-h-[95vh] overflow-y-auto">
+        <div className="text-center mb-6">
+          <div className="w-16 h-16 bg-blue-50 text-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <i className="fas fa-key text-2xl"></i>
+          </div>
+          <h2 className="text-2xl font-bold text-slate-800">ตั้งค่า AI</h2>
+          <p className="text-slate-500 text-sm mt-2">เลือกผู้ให้บริการและโมเดลสำหรับอ่านภาพ การตั้งค่าจะถูกจำไว้ในเครื่องนี้</p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 gap-2">
+            {(Object.keys(PROVIDER_LABELS) as VisionProviderId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => update({ provider: id, model: '' })}
+                className={`px-4 py-2 rounded-xl border text-sm font-bold text-left ${settings.provider === id ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                {PROVIDER_LABELS[id]}
+              </button>
+            ))}
+          </div>
+
+          {settings.provider === 'openai' && (
+            <div>
+              <label className="block text-xs font-bold text-slate-400 uppercase mb-2 ml-1">ที่อยู่เซิร์ฟเวอร์ (Base URL)</label>
+              <input
+                value={settings.baseUrl ?? ''}
+                onChange={e => update({ baseUrl: e.target.value })}
+                placeholder="เช่น http://localhost:11434/v1"
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </div>
+          )}
+
+          {settings.provider !== 'mock' && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-2 ml-1">โมเดล</label>
+                <input
+                  value={settings.model}
+                  onChange={e => update({ model: e.target.value })}
+                  placeholder={DEFAULT_MODELS[settings.provider]}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-400 uppercase mb-2 ml-1">
+                  รหัส API Key{settings.provider === 'openai' && ' (ไม่บังคับสำหรับเซิร์ฟเวอร์ในเครื่อง)'}
+                </label>
+                <input
+                  type="password"
+                  value={settings.apiKey}
+                  onChange={e => update({ apiKey: e.target.value })}
+                  placeholder="ใส่ API Key ของคุณที่นี่..."
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+            </>
+          )}
+
+          {settings.provider === 'mock' && (
+            <div className="bg-slate-50 border rounded-xl p-3 text-xs text-slate-600 space-y-2">
+              <p>ไม่เรียกเครือข่าย ใช้คำตอบที่บันทึกไว้ หรือคำตอบตัวอย่างเมื่อยังไม่มีการบันทึก</p>
+              <p>
+                คำตอบที่บันทึกไว้: {mockTasks.length > 0 ? mockTasks.map(t => TASK_LABELS[t]).join(', ') : 'ยังไม่มี'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleImportMock} className="hidden" />
+                <button onClick={() => fileRef.current?.click()} className="px-3 py-1 rounded-lg border bg-white font-bold hover:bg-slate-50">นำเข้าไฟล์ JSON</button>
+                {Object.keys(recorded).length > 0 && (
+                  <button onClick={() => update({ mockResponses: { ...settings.mockResponses, ...recorded } })} className="px-3 py-1 rounded-lg border bg-white font-bold hover:bg-slate-50">
+                    ใช้คำตอบล่าสุดจาก AI จริง
+                  </button>
+                )}
+                {mockTasks.length > 0 && (
+                  <button onClick={() => update({ mockResponses: undefined })} className="px-3 py-1 rounded-lg text-red-500 hover:underline">ล้าง</button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {(mockTasks.length > 0 || Object.keys(recorded).length > 0) && settings.provider !== 'mock' && (
+            <button onClick={handleExportMock} className="text-xs text-slate-500 hover:underline">
+              <i className="fas fa-download mr-1"></i>ส่งออกคำตอบล่าสุดเป็นไฟล์สำหรับโหมดจำลอง
+            </button>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            onClick={handleSave}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-xl shadow-lg shadow-blue-200 transition-all flex items-center justify-center gap-2"
+          >
+            <i className="fas fa-save"></i> บันทึกและเริ่มใช้งาน
+          </button>
+
+          {settings.provider === 'gemini' && (
+            <div className="text-center">
+              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline">
+                ขอ API Key ฟรีได้ที่ Google AI Studio
+              </a>
+            </div>
+          )}
+
+          <button onClick={onSkip} className="w-full text-slate-500 hover:text-blue-600 text-sm py-2">
+            ใช้งานแบบออฟไลน์ (ตรวจหาช่องคำตอบในเครื่อง ไม่ใช้ AI)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../services/batchGrader.ts';
+
+interface BatchProgressProps {
+  items: BatchItem[];
+  running: boolean;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'รอคิว',
+  processing: 'กำลังตรวจ',
+  done: 'สำเร็จ',
+  failed: 'ไม่สำเร็จ',
+  cancelled: 'ยกเลิก'
+};
+
+export default function BatchProgress({ items, running, onCancel, onClose }: BatchProgressProps) {
+  const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+  const finished = items.length - count('queued') - count('processing');
+  const percent = items.length ? Math.round((finished / items.length) * 100) : 0;
+  const processing = items.filter(i => i.status === 'processing');
+  const failed = items.filter(i => i.status === 'failed');
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/70 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg p-6 animate-fadeIn">
+        <h3 className="text-lg font-bold text-slate-800 mb-1">
+          {running ? 'กำลังตรวจกระดาษคำตอบ...' : 'ตรวจเสร็จแล้ว'}
+        </h3>
+        <p className="text-sm text-slate-500 mb-3">{finished} / {items.length} ชุด</p>
+
+        <div className="w-full h-3 bg-slate-100 rounded-full overflow-hidden mb-3">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-xs mb-4">
+          <span className="text-green-600 font-bold">{STATUS_LABELS.done} {count('done')}</span>
+          <span className="text-red-600 font-bold">{STATUS_LABELS.failed} {count('failed')}</span>
+          {count('cancelled') > 0 && <span className="text-slate-500 font-bold">{STATUS_LABELS.cancelled} {count('cancelled')}</span>}
+          {running && <span className="text-slate-400">{STATUS_LABELS.queued} {count('queued')}</span>}
+        </div>
+
+        {processing.length > 0 && (
+          <ul className="text-xs text-slate-500 mb-4 space-y-1">
+            {processing.map(item => (
+              <li key={item.name} className="truncate">
+                <i className="fas fa-spinner fa-spin mr-2 text-blue-500"></i>{item.name}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {failed.length > 0 && (
+          <div className="max-h-48 overflow-y-auto bg-red-50 border border-red-100 rounded-xl p-3 mb-4">
+            <p className="text-xs font-bold text-red-700 mb-2">ไฟล์ที่ตรวจไม่สำเร็จ</p>
+            <ul className="text-xs text-red-600 space-y-1">
+              {failed.map(item => (
+                <li key={item.name}><span className="font-bold">{item.name}</span>: {item.error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          {running ? (
+            <button onClick={onCancel} className="px-4 py-2 rounded-xl border font-bold text-sm text-slate-600 hover:bg-slate-50">
+              <i className="fas fa-stop mr-2"></i>ยกเลิก
+            </button>
+          ) : (
+            <button onClick={onClose} className="px-4 py-2 rounded-xl bg-blue-600 text-white font-bold text-sm hover:bg-blue-700">
+              ปิด
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Point, SheetRegistration } from '../types.ts';
+import { registerSheet } from '../services/alignment.ts';
+import { brightFraction, laplacianVariance, meanBrightness, toGray } from '../services/imageUtils.ts';
+import { quadCoverage, QUALITY_LIMITS } from '../services/imageQuality.ts';
+
+export interface CaptureTally {
+  count: number;
+  lastLabel?: string;
+  lastScore?: number;
+  lastTotal?: number;
+  pageHint?: string; // ข้อสอบหลายหน้า: หน้าที่ต้องถ่ายถัดไป
+  rejected?: string; // เหตุผลที่ภาพล่าสุดไม่ผ่านเกณฑ์คุณภาพ
+}
+
+interface CameraCaptureProps {
+  tally: CaptureTally;
+  onCapture: (image: ImageData) => void;
+  onClose: () => void;
+}
+
+const ANALYSIS_WIDTH = 480;
+const ANALYSIS_INTERVAL = 250; // ms
+const STEADY_FRAMES = 6; // ต้องนิ่งต่อเนื่องประมาณ 1.5 วินาที
+const MOVE_TOLERANCE = 0.015; // การขยับของมุมกระดาษที่ยังถือว่านิ่ง (สัดส่วนของภาพ)
+const NEW_PAGE_DIFF = 12; // ความต่างเฉลี่ยของภาพย่อ ที่ถือว่าเปลี่ยนแผ่นแล้ว
+
+type Guidance = { ok: boolean; message: string };
+
+const maxCornerShift = (a: Point[], b: Point[]): number =>
+  Math.max(...a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)));
+
+const thumbnailDiff = (a: Uint8Array, b: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return a.length ? sum / a.length : 0;
+};
+
+export default function CameraCapture({ tally, onCapture, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const analysisRef = useRef<HTMLCanvasElement>(null);
+  const captureRef = useRef<HTMLCanvasElement>(null);
+  const [guidance, setGuidance] = useState<Guidance>({ ok: false, message: 'กำลังเปิดกล้อง...' });
+  const [autoShoot, setAutoShoot] = useState(true);
+  const [flash, setFlash] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  // สถานะของลูปวิเคราะห์ภาพ (ไม่ต้อง render ใหม่)
+  const loopState = useRef({
+    lastCorners: null as Point[] | null,
+    steady: 0,
+    armed: true,
+    lastCapture: null as Uint8Array | null
+  });
+  const autoShootRef = useRef(autoShoot);
+  autoShootRef.current = autoShoot;
+  const onCaptureRef = useRef(onCapture);
+  onCaptureRef.current = onCapture;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+        timer = window.setInterval(analyzeFrame, ANALYSIS_INTERVAL);
+      } catch (err: any) {
+        setCameraError("ไม่สามารถเปิดกล้องได้ กรุณาอนุญาตการใช้กล้องในเบราว์เซอร์");
+      }
+    };
+
+    start();
+    return () => {
+      cancelled = true;
+      if (timer) window.clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const capture = () => {
+    const video = videoRef.current;
+    const canvas = captureRef.current;
+    if (!video || !canvas || !video.videoWidth) return;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(video, 0, 0);
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    loopState.current.lastCapture = toGray(image, 64).data;
+    loopState.current.armed = false;
+    loopState.current.steady = 0;
+    setFlash(true);
+    window.setTimeout(() => setFlash(false), 200);
+    onCaptureRef.current(image);
+  };
+
+  const drawOverlay = (registration: SheetRegistration | null, ok: boolean) => {
+    const overlay = overlayRef.current;
+    const video = videoRef.current;
+    if (!overlay || !video) return;
+    overlay.width = video.clientWidth;
+    overlay.height = video.clientHeight;
+    const ctx = overlay.getContext('2d')!;
+    ctx.clearRect(0, 0, overlay.width, overlay.height);
+    if (!registration) return;
+    ctx.strokeStyle = ok ? '#22c55e' : '#f59e0b';
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    registration.corners.forEach((p, i) => {
+      const x = p.x * overlay.width;
+      const y = p.y * overlay.height;
+      if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+    });
+    ctx.closePath();
+    ctx.stroke();
+  };
+
+  const analyzeFrame = () => {
+    const video = videoRef.current;
+    const canvas = analysisRef.current;
+    if (!video || !canvas || !video.videoWidth) return;
+    const scale = ANALYSIS_WIDTH / video.videoWidth;
+    canvas.width = ANALYSIS_WIDTH;
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const gray = toGray(frame);
+    const state = loopState.current;
+
+    const registration = registerSheet(frame);
+    const found = registration.method !== 'none' && registration.confidence >= 0.3;
+    const coverage = found ? quadCoverage(registration.corners) : 0;
+    const shift = found && state.lastCorners ? maxCornerShift(registration.corners, state.lastCorners) : 1;
+    state.lastCorners = found ? registration.corners : null;
+
+    // กระดาษหายไปหรือขยับมาก = กำลังเปลี่ยนแผ่น พร้อมถ่ายแผ่นถัดไป
+    if (!found || shift > MOVE_TOLERANCE * 4) state.armed = true;
+
+    let result: Guidance;
+    if (!found) result = { ok: false, message: 'ไม่พบกระดาษคำตอบ วางกระดาษให้อยู่ในกรอบ' };
+    else if (coverage < QUALITY_LIMITS.coverage.warn) result = { ok: false, message: 'ขยับกล้องเข้าใกล้ให้กระดาษเต็มกรอบ' };
+    else if (coverage > QUALITY_LIMITS.coverage.edge) result = { ok: false, message: 'ถอยกล้องออกให้เห็นขอบกระดาษทั้ง 4 มุม' };
+    else if (meanBrightness(gray) < QUALITY_LIMITS.brightness.warn) result = { ok: false, message: 'แสงน้อยเกินไป เปิดไฟหรือย้ายไปที่สว่าง' };
+    else if (brightFraction(gray) > QUALITY_LIMITS.glare.warn) result = { ok: false, message: 'มีแสงสะท้อนบนกระดาษ ปรับมุมกล้อง' };
+    else if (laplacianVariance(gray) < QUALITY_LIMITS.blur.warn) result = { ok: false, message: 'ภาพเบลอ ถือกล้องให้นิ่ง' };
+    else if (shift > MOVE_TOLERANCE) result = { ok: false, message: 'ถือกล้องให้นิ่ง...' };
+    else result = { ok: true, message: 'พร้อมถ่าย' };
+
+    state.steady = result.ok ? state.steady + 1 : 0;
+    const samePage = state.lastCapture && thumbnailDiff(toGray(frame, 64).data, state.lastCapture) < NEW_PAGE_DIFF;
+
+    if (result.ok && !state.armed) {
+      result = { ok: true, message: samePage ? 'ถ่ายแผ่นนี้แล้ว พลิกไปแผ่นถัดไป' : 'พร้อมถ่าย' };
+      if (!samePage) state.armed = true;
+    } else if (result.ok && autoShootRef.current && state.steady >= STEADY_FRAMES) {
+      capture();
+      result = { ok: true, message: 'ถ่ายแล้ว กำลังตรวจ...' };
+    } else if (result.ok && autoShootRef.current) {
+      result = { ok: true, message: 'ถือนิ่งๆ กำลังจะถ่ายอัตโนมัติ' };
+    }
+
+    setGuidance(result);
+    drawOverlay(found ? registration : null, result.ok);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black z-[150] flex flex-col">
+      <div className="relative flex-grow overflow-hidden flex items-center justify-center">
+        {cameraError ? (
+          <p className="text-white text-center p-8">{cameraError}</p>
+        ) : (
+          <div className="relative max-h-full">
+            <video ref={videoRef} playsInline muted className="max-h-[80vh] w-auto block" />
+            <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+            {flash && <div className="absolute inset-0 bg-white/70"></div>}
+          </div>
+        )}
+
+        <div className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full text-sm font-bold ${guidance.ok ? 'bg-green-600 text-white' : 'bg-amber-500 text-white'}`}>
+          {guidance.message}
+        </div>
+
+        <div className="absolute top-4 right-4 bg-white/90 rounded-xl px-4 py-2 text-right">
+          <p className="text-xs text-slate-500">ตรวจแล้ว</p>
+          <p className="text-2xl font-bold text-blue-600">{tally.count} แผ่น</p>
+          {tally.lastLabel && (
+            <p className="text-xs text-slate-600">
+              ล่าสุด: {tally.lastLabel} · {tally.lastScore}/{tally.lastTotal}
+            </p>
+          )}
+          {tally.pageHint && <p className="text-xs font-bold text-amber-600">{tally.pageHint}</p>}
+          {tally.rejected && <p className="text-xs font-bold text-red-600 max-w-[220px]">{tally.rejected}</p>}
+        </div>
+      </div>
+
+      <div className="bg-slate-900 p-4 flex items-center justify-between gap-4">
+        <label className="text-white text-sm flex items-center gap-2">
+          <input type="checkbox" checked={autoShoot} onChange={e => setAutoShoot(e.target.checked)} />
+          ถ่ายอัตโนมัติเมื่อกระดาษนิ่ง
+        </label>
+        <button onClick={capture} disabled={!!cameraError} className="w-16 h-16 rounded-full bg-white border-4 border-slate-400 hover:bg-slate-100 disabled:opacity-30" title="ถ่ายภาพ"></button>
+        <button onClick={onClose} className="text-white font-bold px-4 py-2 rounded-lg bg-slate-700 hover:bg-slate-600">
+          เสร็จสิ้น
+        </button>
+      </div>
+
+      <canvas ref={analysisRef} className="hidden" />
+      <canvas ref={captureRef} className="hidden" />
+    </div>
+  );
+}
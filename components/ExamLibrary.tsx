@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExamRecord, GradingSession } from '../types.ts';
+import { deleteExam, deleteSession, duplicateExam, listExams, listSessions, renameExam } from '../services/storage.ts';
+import { exportExamPackage, importExamPackage, mergeSessions, parseExamPackage } from '../services/examPackage.ts';
+
+interface ExamLibraryProps {
+  onOpen: (exam: ExamRecord, session: GradingSession | null) => void;
+  onClose: () => void;
+}
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleString('th-TH', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default function ExamLibrary({ onOpen, onClose }: ExamLibraryProps) {
+  const [exams, setExams] = useState<ExamRecord[]>([]);
+  const [sessions, setSessions] = useState<Record<string, GradingSession[]>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      const list = await listExams();
+      setExams(list);
+      const entries = await Promise.all(list.map(async ex => [ex.id, await listSessions(ex.id)] as const));
+      setSessions(Object.fromEntries(entries));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleRename = (exam: ExamRecord) => run(async () => {
+    if (editName.trim()) await renameExam(exam.id, editName.trim());
+    setEditingId(null);
+  });
+
+  const handleDelete = (exam: ExamRecord) => {
+    if (!window.confirm(`ลบข้อสอบ "${exam.subject.name}" และผลการตรวจทั้งหมด?`)) return;
+    run(() => deleteExam(exam.id));
+  };
+
+  // นำเข้าได้หลายไฟล์พร้อมกัน เช่น ผลจากครูหลายห้องของข้อสอบเดียวกัน
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from((e.target.files ?? []) as ArrayLike<File>);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    setMessage(null);
+    const notes: string[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        const { exam, session, mergedIntoExisting } = await importExamPackage(parseExamPackage(await file.text()));
+        notes.push(`${exam.subject.name}${mergedIntoExisting ? ' (ข้อสอบเดิมในเครื่อง)' : ''}${session ? ` ผลการตรวจ ${session.results.length} แผ่น` : ''}`);
+      } catch (err: any) {
+        failures.push(`${file.name}: ${err.message}`);
+      }
+    }
+    if (notes.length > 0) setMessage(`นำเข้าแล้ว: ${notes.join(', ')}`);
+    if (failures.length > 0) setError(`นำเข้าไม่สำเร็จ ${failures.join(' / ')}`);
+    await refresh();
+  };
+
+  const handleMergeSessions = async (exam: ExamRecord, examSessions: GradingSession[]) => {
+    try {
+      onOpen(exam, await mergeSessions(exam.id, examSessions));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDeleteSession = (session: GradingSession) => {
+    if (!window.confirm('ลบผลการตรวจรอบนี้?')) return;
+    run(() => deleteSession(session.id));
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-2xl shadow-sm border animate-fadeIn">
+      <div className="flex justify-between items-center mb-6 border-b pb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800">คลังข้อสอบ</h2>
+          <p className="text-slate-500 text-sm">ข้อสอบและผลการตรวจที่บันทึกไว้ในเครื่องนี้</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <input ref={fileRef} type="file" accept=".json,application/json" multiple onChange={handleImport} className="hidden" />
+          <button onClick={() => fileRef.current?.click()} className="border px-3 py-2 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-50">
+            <i className="fas fa-file-import mr-1"></i> นำเข้าแพ็กเกจข้อสอบ
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-blue-600 text-sm">ปิด</button>
+        </div>
+      </div>
+
+      {loading && <p className="text-center text-slate-400 py-8">กำลังโหลด...</p>}
+      {!loading && exams.length === 0 && (
+        <p className="text-center text-slate-400 py-8">ยังไม่มีข้อสอบที่บันทึกไว้</p>
+      )}
+      {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+      {message && <p className="text-emerald-600 text-sm mb-4">{message}</p>}
+
+      <div className="space-y-3">
+        {exams.map(exam => {
+          const examSessions = sessions[exam.id] || [];
+          const sheetCount = examSessions.reduce((sum, s) => sum + s.results.length, 0);
+          return (
+            <div key={exam.id} className="border rounded-xl overflow-hidden">
+              <div className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-grow">
+                  {editingId === exam.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        autoFocus
+                        value={editName}
+                        onChange={e => setEditName(e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && handleRename(exam)}
+                        className="flex-grow border-2 border-slate-200 p-2 rounded-lg focus:border-blue-400 outline-none"
+                      />
+                      <button onClick={() => handleRename(exam)} className="px-3 rounded-lg bg-blue-600 text-white text-sm font-bold">บันทึก</button>
+                      <button onClick={() => setEditingId(null)} className="px-3 rounded-lg text-slate-400 text-sm">ยกเลิก</button>
+                    </div>
+                  ) : (
+                    <>
+                      <p className="font-bold text-slate-700">{exam.subject.name}</p>
+                      <p className="text-xs text-slate-400">
+                        {exam.subject.questionCount} ข้อ · ตรวจแล้ว {sheetCount} แผ่น · แก้ไขล่าสุด {formatDate(exam.updatedAt)}
+                      </p>
+                    </>
+                  )}
+                </div>
+                <div className="flex gap-1 flex-wrap">
+                  <button onClick={() => onOpen(exam, null)} className="bg-blue-600 text-white px-3 py-2 rounded-lg text-xs font-bold hover:bg-blue-700">
+                    <i className="fas fa-play mr-1"></i> ตรวจรอบใหม่
+                  </button>
+                  <button onClick={() => setExpandedId(expandedId === exam.id ? null : exam.id)} className="border px-3 py-2 rounded-lg text-xs hover:bg-slate-50">
+                    <i className="fas fa-history mr-1"></i> ผลการตรวจ ({examSessions.length})
+                  </button>
+                  <button onClick={() => { setEditingId(exam.id); setEditName(exam.subject.name); }} title="เปลี่ยนชื่อ" className="border px-3 py-2 rounded-lg text-xs hover:bg-slate-50">
+                    <i className="fas fa-pen"></i>
+                  </button>
+                  <button onClick={() => exportExamPackage(exam)} title="ส่งออกแพ็กเกจข้อสอบ (ต้นแบบและเฉลย) ให้ครูท่านอื่น" className="border px-3 py-2 rounded-lg text-xs hover:bg-slate-50">
+                    <i className="fas fa-file-export"></i>
+                  </button>
+                  <button onClick={() => run(() => duplicateExam(exam.id, `${exam.subject.name} (สำเนา)`))} title="ทำสำเนา" className="border px-3 py-2 rounded-lg text-xs hover:bg-slate-50">
+                    <i className="fas fa-copy"></i>
+                  </button>
+                  <button onClick={() => handleDelete(exam)} title="ลบ" className="border px-3 py-2 rounded-lg text-xs text-red-500 hover:bg-red-50">
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === exam.id && (
+                <div className="bg-slate-50 border-t divide-y">
+                  {examSessions.length === 0 && <p className="p-4 text-xs text-slate-400">ยังไม่มีผลการตรวจ</p>}
+                  {examSessions.length > 1 && (
+                    <div className="p-3 px-4 flex items-center gap-3 text-sm">
+                      <span className="flex-grow text-xs text-slate-500">รวมผลทุกรอบ (เช่น จากหลายห้อง) เป็นรอบใหม่สำหรับรายงานรวม รอบเดิมยังอยู่</span>
+                      <button onClick={() => handleMergeSessions(exam, examSessions)} className="text-blue-600 font-bold text-xs hover:underline">
+                        <i className="fas fa-layer-group mr-1"></i>รวมผลทุกรอบ
+                      </button>
+                    </div>
+                  )}
+                  {examSessions.map(session => (
+                    <div key={session.id} className="p-3 px-4 flex items-center gap-3 text-sm">
+                      <span className="flex-grow text-slate-600">
+                        {formatDate(session.updatedAt)} · {session.results.length} แผ่น
+                      </span>
+                      <button onClick={() => onOpen(exam, session)} className="text-blue-600 font-bold text-xs hover:underline">เปิด / ตรวจต่อ</button>
+                      <button onClick={() => exportExamPackage(exam, session.results)} className="text-slate-500 text-xs hover:underline">ส่งออกพร้อมผล</button>
+                      <button onClick={() => handleDeleteSession(session)} className="text-red-400 text-xs hover:underline">ลบ</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
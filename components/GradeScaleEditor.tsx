@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { GradeScale, GradingResult } from '../types.ts';
+import { GRADE_SCALE_PRESETS, gradeDistribution, validateGradeScale } from '../services/gradeScale.ts';
+
+interface GradeScaleEditorProps {
+  scale: GradeScale;
+  results: GradingResult[];
+  onSave: (scale: GradeScale) => void;
+}
+
+const CUSTOM_NAME = 'กำหนดเอง';
+
+export default function GradeScaleEditor({ scale, results, onSave }: GradeScaleEditorProps) {
+  // แก้ไขเป็นร่างก่อน แล้วบันทึกทีเดียว (การบันทึกเขียนข้อสอบทั้งชุดลงเครื่อง)
+  const [draft, setDraft] = useState<GradeScale>(scale);
+  // เปิดข้อสอบอื่นหรือเกณฑ์ถูกเปลี่ยนจากที่อื่น ให้เริ่มร่างใหม่จากเกณฑ์ปัจจุบัน
+  useEffect(() => {
+    setDraft(scale);
+  }, [scale]);
+  const issues = validateGradeScale(draft);
+  const changed = JSON.stringify(draft) !== JSON.stringify(scale);
+  const distribution = gradeDistribution(results, scale);
+
+  const updateBand = (index: number, patch: Partial<GradeScale['bands'][number]>) =>
+    setDraft({ name: CUSTOM_NAME, bands: draft.bands.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {distribution.map(d => (
+          <span key={d.grade} className="px-3 py-1.5 rounded-lg bg-slate-50 border text-sm">
+            เกรด <span className="font-bold text-blue-600">{d.grade}</span> {d.count} คน
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-slate-500">ใช้เกณฑ์สำเร็จรูป</span>
+        {GRADE_SCALE_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            onClick={() => setDraft(preset)}
+            className={`px-3 py-1 rounded-lg border text-xs font-bold ${draft.name === preset.name ? 'bg-blue-600 text-white border-blue-600' : 'text-slate-600 hover:bg-slate-50'}`}
+          >
+            {preset.name}
+          </button>
+        ))}
+      </div>
+
+      <table className="text-sm">
+        <thead>
+          <tr className="text-slate-500 text-xs">
+            <th className="p-1 text-left font-normal">ร้อยละตั้งแต่</th>
+            <th className="p-1 text-left font-normal">ได้เกรด</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.bands.map((band, i) => (
+            <tr key={i}>
+              <td className="p-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={band.minPercent}
+                  onChange={e => updateBand(i, { minPercent: parseFloat(e.target.value) || 0 })}
+                  className="border rounded-lg p-1 w-20 text-center"
+                />
+              </td>
+              <td className="p-1">
+                <input value={band.grade} onChange={e => updateBand(i, { grade: e.target.value })} className="border rounded-lg p-1 w-24 text-center font-bold" />
+              </td>
+              <td className="p-1">
+                <button onClick={() => setDraft({ name: CUSTOM_NAME, bands: draft.bands.filter((_, j) => j !== i) })} className="text-xs text-red-500 hover:underline">ลบ</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => setDraft({ name: CUSTOM_NAME, bands: [...draft.bands, { minPercent: 0, grade: '' }] })}
+          className="text-xs text-blue-600 hover:underline"
+        >
+          <i className="fas fa-plus mr-1"></i>เพิ่มระดับ
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!changed || issues.length > 0}
+          className="ml-auto bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-bold hover:bg-blue-700 disabled:opacity-40"
+        >
+          บันทึกเกณฑ์
+        </button>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="text-xs text-amber-700 space-y-1">
+          {issues.map(issue => <li key={issue}><i className="fas fa-exclamation-triangle mr-1"></i>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React from 'react';
+import { GradingResult, MasterConfig } from '../types.ts';
+import { analyzeItems, ITEM_FLAG_LABELS, ItemFlag } from '../services/itemAnalysis.ts';
+import { versionLabels } from '../services/versions.ts';
+
+interface ItemAnalysisReportProps {
+  results: GradingResult[];
+  master: MasterConfig;
+}
+
+const fixed = (v: number, digits = 2) => v.toFixed(digits);
+
+const FLAG_STYLES: Record<ItemFlag, string> = {
+  'negative': 'bg-red-50 text-red-600 border-red-100',
+  'wrong-key': 'bg-red-50 text-red-600 border-red-100',
+  'too-hard': 'bg-amber-50 text-amber-700 border-amber-100',
+  'too-easy': 'bg-slate-50 text-slate-500 border-slate-200',
+  'low-discrimination': 'bg-amber-50 text-amber-700 border-amber-100'
+};
+
+// รายงานวิเคราะห์ข้อสอบ เรียงตามเลขข้อของชุดหลัก รวมทุกชุด
+export default function ItemAnalysisReport({ results, master }: ItemAnalysisReportProps) {
+  const { items, test } = analyzeItems(results, master);
+  const labels = (master.versions ?? []).length > 0 ? versionLabels(master) : [];
+  const maxBin = Math.max(1, ...test.histogram.map(b => b.count));
+
+  const summary = [
+    { label: 'จำนวนผู้สอบ', value: `${test.count} คน` },
+    { label: 'ค่าเฉลี่ย', value: `${fixed(test.mean)} / ${test.total}` },
+    { label: 'ส่วนเบี่ยงเบนมาตรฐาน', value: fixed(test.sd) },
+    { label: 'มัธยฐาน', value: fixed(test.median, 1) },
+    { label: 'ต่ำสุด - สูงสุด', value: `${test.min} - ${test.max}` },
+    { label: 'ความเชื่อมั่น (KR-20)', value: fixed(test.kr20) }
+  ];
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {summary.map(s => (
+          <div key={s.label} className="bg-slate-50 rounded-xl p-3">
+            <p className="text-[11px] text-slate-400">{s.label}</p>
+            <p className="text-lg font-bold text-slate-700">{s.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-sm font-bold text-slate-600 mb-2">การกระจายของคะแนน</p>
+        <div className="flex items-end gap-1 h-32 border-b">
+          {test.histogram.map(bin => (
+            <div key={bin.from} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bin.from}-${bin.to} คะแนน: ${bin.count} คน`}>
+              <span className="text-[10px] text-slate-500">{bin.count || ''}</span>
+              <div className="w-full bg-blue-500 rounded-t" style={{ height: `${(bin.count / maxBin) * 100}%` }}></div>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1 mt-1">
+          {test.histogram.map(bin => (
+            <span key={bin.from} className="flex-1 text-center text-[9px] text-slate-400">{bin.from}</span>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto max-h-[28rem] overflow-y-auto border rounded-xl">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr>
+              <th className="p-2 text-left">ข้อ</th>
+              <th className="p-2 text-center">เฉลย</th>
+              <th className="p-2 text-center" title="ความยาก (สัดส่วนผู้ตอบถูก)">p</th>
+              <th className="p-2 text-center" title="อำนาจจำแนก กลุ่มสูง-กลุ่มต่ำ 27%">r (D)</th>
+              <th className="p-2 text-center" title="สหสัมพันธ์พอยท์ไบซีเรียล">r<sub>pb</sub></th>
+              {labels.map(l => <th key={l} className="p-2 text-center">p ชุด {l}</th>)}
+              <th className="p-2 text-left">ตัวเลือกที่ถูกเลือก (สูง/ต่ำ)</th>
+              <th className="p-2 text-left">ข้อสังเกต</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {items.map(item => (
+              <tr key={item.question} className={item.flags.some(f => f === 'negative' || f === 'wrong-key') ? 'bg-red-50/40' : ''}>
+                <td className="p-2 font-bold text-slate-600">{item.question}</td>
+                <td className="p-2 text-center font-bold text-blue-600">{item.key.join('/') || '-'}</td>
+                <td className="p-2 text-center">{fixed(item.difficulty)}</td>
+                <td className={`p-2 text-center ${item.discrimination < 0 ? 'text-red-600 font-bold' : ''}`}>{fixed(item.discrimination)}</td>
+                <td className={`p-2 text-center ${item.pointBiserial < 0 ? 'text-red-600 font-bold' : ''}`}>{fixed(item.pointBiserial)}</td>
+                {labels.map(l => (
+                  <td key={l} className="p-2 text-center text-slate-500">{item.byVersion[l] !== undefined ? fixed(item.byVersion[l]) : '-'}</td>
+                ))}
+                <td className="p-2">
+                  <div className="flex flex-wrap gap-1">
+                    {item.options.map(o => (
+                      <span key={o.label || 'blank'} className={`px-1.5 py-0.5 rounded border ${o.isKey ? 'border-blue-300 bg-blue-50 text-blue-700 font-bold' : 'border-slate-200 text-slate-600'}`}>
+                        {o.label || 'ว่าง'} {o.count} <span className="text-slate-400">({o.upper}/{o.lower})</span>
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="p-2">
+                  <div className="flex flex-wrap gap-1">
+                    {item.flags.map(f => (
+                      <span key={f} className={`px-1.5 py-0.5 rounded-full border text-[10px] font-bold ${FLAG_STYLES[f]}`}>{ITEM_FLAG_LABELS[f]}</span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-[11px] text-slate-400">
+        เกณฑ์: ความยากที่เหมาะสม p = 0.20-0.80, อำนาจจำแนกที่ใช้ได้ r ≥ 0.20 (กลุ่มสูง/ต่ำ 27%), ข้อที่ตัดทิ้งไม่นำมาคำนวณ
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useRef, useState } from 'react';
+import { BoxCoordinate, MasterConfig } from '../types.ts';
+import { ALL_OPTION_LABELS, OPTION_LABELS } from '../services/answerKey.ts';
+import { masterPages, onPage } from '../services/pages.ts';
+import { columnOf, gridFill, moveBoxes, nextBoxId, resizeBoxes, validateLayout } from '../services/layoutEditor.ts';
+
+interface LayoutEditorProps {
+  master: MasterConfig;
+  questionCount: number;
+  onChange: (master: MasterConfig) => void;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  ids: string[];
+  boxes: BoxCoordinate[]; // ตำแหน่งก่อนเริ่มลาก
+}
+
+const NUDGE_STEP = 0.1;
+
+export default function LayoutEditor({ master, questionCount, onChange }: LayoutEditorProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [fillFrom, setFillFrom] = useState(1);
+  const [fillTo, setFillTo] = useState(questionCount);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const boxes = master.boxes;
+  const selected = boxes.filter(b => selectedIds.includes(b.id));
+  const single = selected.length === 1 ? selected[0] : null;
+  const issues = validateLayout(boxes, questionCount);
+  const pages = masterPages(master);
+  const pageBoxes = onPage(boxes, page);
+
+  const setBoxes = (next: BoxCoordinate[]) => onChange({ ...master, boxes: next });
+
+  // ตำแหน่งเมาส์เป็น % ของภาพ
+  const toPercent = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * 100, y: ((e.clientY - rect.top) / rect.height) * 100 };
+  };
+
+  const startDrag = (e: React.PointerEvent, box: BoxCoordinate, mode: DragState['mode']) => {
+    e.stopPropagation();
+    e.preventDefault();
+    let ids = selectedIds;
+    if (e.shiftKey) {
+      ids = selectedIds.includes(box.id) ? selectedIds.filter(id => id !== box.id) : [...selectedIds, box.id];
+    } else if (!selectedIds.includes(box.id)) {
+      ids = [box.id];
+    }
+    setSelectedIds(ids);
+    const p = toPercent(e);
+    dragRef.current = { mode, startX: p.x, startY: p.y, ids, boxes };
+    containerRef.current?.setPointerCapture(e.pointerId);
+    containerRef.current?.focus();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toPercent(e);
+    const dx = p.x - drag.startX;
+    const dy = p.y - drag.startY;
+    setBoxes(drag.mode === 'move' ? moveBoxes(drag.boxes, drag.ids, dx, dy) : resizeBoxes(drag.boxes, drag.ids, dx, dy));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const nudge = (dx: number, dy: number) => setBoxes(moveBoxes(boxes, selectedIds, dx, dy));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (selectedIds.length === 0) return;
+    const step = e.shiftKey ? NUDGE_STEP * 10 : NUDGE_STEP;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step]
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      nudge(...moves[e.key]);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      handleDelete();
+    }
+  };
+
+  const handleAdd = () => {
+    const base = single ?? pageBoxes[pageBoxes.length - 1];
+    const box: BoxCoordinate = base
+      ? { ...base, id: nextBoxId(boxes), x: base.x + base.w * 1.5 }
+      : { id: nextBoxId(boxes), questionNumber: 1, optionLabel: OPTION_LABELS[0], x: 45, y: 45, w: 3, h: 2 };
+    if (pages.length > 1) box.page = page;
+    setBoxes([...boxes, box]);
+    setSelectedIds([box.id]);
+  };
+
+  const handleDelete = () => {
+    setBoxes(boxes.filter(b => !selectedIds.includes(b.id)));
+    setSelectedIds([]);
+  };
+
+  const relabel = (patch: Partial<BoxCoordinate>) => {
+    if (!single) return;
+    setBoxes(boxes.map(b => (b.id === single.id ? { ...b, ...patch } : b)));
+  };
+
+  const handleGridFill = () => {
+    try {
+      setError(null);
+      setBoxes(gridFill(boxes, fillFrom, fillTo));
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const toolButton = 'px-2.5 py-1.5 rounded-lg border text-xs font-bold text-slate-600 hover:bg-slate-50 disabled:opacity-40';
+
+  return (
+    <div className="border rounded-xl mb-6 overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 border-b">
+        <button onClick={handleAdd} className={toolButton}><i className="fas fa-plus mr-1"></i>เพิ่มช่อง</button>
+        <button onClick={handleDelete} disabled={selected.length === 0} className={toolButton}><i className="fas fa-trash mr-1"></i>ลบ</button>
+        <button onClick={() => single && setSelectedIds(columnOf(boxes, single))} disabled={!single} className={toolButton}>
+          <i className="fas fa-grip-lines-vertical mr-1"></i>เลือกทั้งคอลัมน์
+        </button>
+        <span className="flex items-center gap-1">
+          <button onClick={() => nudge(-NUDGE_STEP, 0)} disabled={selected.length === 0} className={toolButton}><i className="fas fa-arrow-left"></i></button>
+          <button onClick={() => nudge(0, -NUDGE_STEP)} disabled={selected.length === 0} className={toolButton}><i className="fas fa-arrow-up"></i></button>
+          <button onClick={() => nudge(0, NUDGE_STEP)} disabled={selected.length === 0} className={toolButton}><i className="fas fa-arrow-down"></i></button>
+          <button onClick={() => nudge(NUDGE_STEP, 0)} disabled={selected.length === 0} className={toolButton}><i className="fas fa-arrow-right"></i></button>
+        </span>
+        {single && (
+          <span className="flex items-center gap-1 text-xs text-slate-500">
+            ข้อ
+            <input
+              type="number"
+              min={1}
+              value={single.questionNumber}
+              onChange={e => relabel({ questionNumber: parseInt(e.target.value) || 1 })}
+              className="border rounded-lg p-1 w-14 text-center"
+            />
+            ตัวเลือก
+            <select value={single.optionLabel} onChange={e => relabel({ optionLabel: e.target.value })} className="border rounded-lg p-1">
+              {ALL_OPTION_LABELS.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </span>
+        )}
+        <span className="text-xs text-slate-400 ml-auto">เลือกแล้ว {selected.length} ช่อง (Shift+คลิก เพื่อเลือกหลายช่อง)</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b text-xs text-slate-500">
+        เติมช่องแบบตารางจากข้อ
+        <input type="number" min={1} value={fillFrom} onChange={e => setFillFrom(parseInt(e.target.value) || 1)} className="border rounded-lg p-1 w-14 text-center" />
+        ถึงข้อ
+        <input type="number" min={1} value={fillTo} onChange={e => setFillTo(parseInt(e.target.value) || 1)} className="border rounded-lg p-1 w-14 text-center" />
+        <button onClick={handleGridFill} className={toolButton}>เติมช่องข้อระหว่างกลาง</button>
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+
+      {pages.length > 1 && (
+        <div className="flex gap-1 px-3 pt-2 border-b">
+          {pages.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => { setPage(i + 1); setSelectedIds([]); }}
+              className={`px-3 py-1.5 rounded-t-lg text-xs font-bold ${page === i + 1 ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              หน้า {i + 1}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-[70vh] overflow-auto bg-slate-100 p-3">
+        <div
+          ref={containerRef}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          onPointerDown={() => setSelectedIds([])}
+          className="relative inline-block w-full outline-none select-none touch-none"
+        >
+          <img src={pages[page - 1]?.imageUrl ?? master.imageUrl} alt="ภาพต้นแบบ" className="w-full block pointer-events-none" draggable={false} />
+          {pageBoxes.map(box => {
+            const isSelected = selectedIds.includes(box.id);
+            return (
+              <div
+                key={box.id}
+                onPointerDown={e => startDrag(e, box, 'move')}
+                title={`ข้อ ${box.questionNumber} ${box.optionLabel}`}
+                className={`absolute border-2 cursor-move ${isSelected ? 'border-purple-600 bg-purple-400/30' : 'border-blue-500 bg-blue-400/10'}`}
+                style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.w}%`, height: `${box.h}%` }}
+              >
+                <span className="absolute -top-3 left-0 text-[8px] leading-none bg-white/80 px-0.5 text-slate-700 whitespace-nowrap">
+                  {box.questionNumber}{box.optionLabel}
+                </span>
+                {isSelected && single && (
+                  <span
+                    onPointerDown={e => startDrag(e, box, 'resize')}
+                    className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-purple-600 border border-white cursor-se-resize"
+                  ></span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="p-3 bg-amber-50 text-amber-700 text-xs space-y-1 border-t border-amber-100">
+          {issues.map(issue => (
+            <li key={issue}><i className="fas fa-exclamation-triangle mr-1"></i>{issue}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
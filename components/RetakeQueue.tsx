@@ -0,0 +1,38 @@
+import React from 'react';
+import { GradingResult } from '../types.ts';
+
+interface RetakeQueueProps {
+  items: GradingResult[];
+  onRemove: (index: number) => void;
+}
+
+export default function RetakeQueue({ items, onRemove }: RetakeQueueProps) {
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-red-100 overflow-hidden mb-6">
+      <div className="p-4 bg-red-50 border-b border-red-100">
+        <h3 className="font-bold text-red-700">
+          <i className="fas fa-redo mr-2"></i>ต้องถ่ายใหม่ {items.length} แผ่น
+        </h3>
+        <p className="text-xs text-red-600 mt-1">
+          ภาพเหล่านี้ไม่ผ่านเกณฑ์คุณภาพจึงยังไม่นับในผลการตรวจ อัปโหลดภาพที่ถ่ายใหม่ได้ที่ "ตรวจเพิ่ม"
+          ระบบจะนำออกจากรายการนี้เมื่อจับคู่กับนักเรียนคนเดิมได้
+        </p>
+      </div>
+      <ul className="divide-y">
+        {items.map((item, idx) => (
+          <li key={idx} className="p-3 flex items-center gap-3">
+            <div className="flex-grow min-w-0">
+              <p className="font-bold text-slate-700 text-sm truncate">{item.sourceFileName ?? item.studentName}</p>
+              <ul className="text-xs text-red-600">
+                {(item.quality?.reasons ?? []).map(reason => <li key={reason}>{reason}</li>)}
+              </ul>
+            </div>
+            <button onClick={() => onRemove(idx)} className="text-slate-400 hover:text-red-600 p-2" title="ลบ">
+              <i className="fas fa-trash"></i>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { BoxCoordinate, GradingDetail, GradingResult, MasterConfig, WrittenRegion, WrittenScore } from '../types.ts';
+import { LOW_CONFIDENCE, overrideAnswer } from '../services/grader.ts';
+import { MARK_CLASS_LABELS } from '../services/markDetection.ts';
+import { questionOptions } from '../services/answerKey.ts';
+import { onPage } from '../services/pages.ts';
+import { confirmWrittenScore, writtenEntry } from '../services/writtenGrading.ts';
+
+interface ReviewPanelProps {
+  result: GradingResult;
+  master: MasterConfig;
+  onChange: (result: GradingResult) => void;
+  onClose: () => void;
+  onProposeWritten?: () => void; // ให้ AI เสนอคะแนนข้อเขียนของแผ่นนี้
+  proposing?: boolean;
+}
+
+type BoxState = 'correct' | 'wrong' | 'multi' | 'cancelled' | 'key' | 'faint' | 'blank';
+
+const BOX_STYLES: Record<BoxState, string> = {
+  correct: 'border-green-500 bg-green-400/30',
+  wrong: 'border-red-500 bg-red-400/30',
+  multi: 'border-amber-500 bg-amber-400/30',
+  cancelled: 'border-slate-600 bg-slate-500/30',
+  key: 'border-blue-500 border-dashed',
+  faint: 'border-slate-400 border-dotted bg-slate-300/20',
+  blank: 'border-slate-400/60'
+};
+
+const LEGEND: { state: BoxState; label: string }[] = [
+  { state: 'correct', label: 'มาร์คถูก' },
+  { state: 'wrong', label: 'มาร์คผิด' },
+  { state: 'multi', label: 'มาร์คหลายช่อง' },
+  { state: 'cancelled', label: 'ขีดฆ่า/ยกเลิก' },
+  { state: 'key', label: 'เฉลย (ไม่ได้มาร์ค)' },
+  { state: 'faint', label: 'รอยจาง/รอยลบ' },
+  { state: 'blank', label: 'ว่าง' }
+];
+
+const boxState = (box: BoxCoordinate, detail: GradingDetail | undefined): BoxState => {
+  if (!detail) return 'blank';
+  const marked = detail.markedLabels ?? (detail.studentAnswer ? [detail.studentAnswer] : []);
+  const accepted = detail.correctAnswer.split('/');
+  if (marked.includes(box.optionLabel)) {
+    if (marked.length > 1) return 'multi';
+    return accepted.includes(box.optionLabel) ? 'correct' : 'wrong';
+  }
+  const markState = detail.markStates?.[box.optionLabel];
+  if (markState === 'cancelled') return 'cancelled';
+  if (accepted.includes(box.optionLabel)) return 'key';
+  return markState === 'faint' ? 'faint' : 'blank';
+};
+
+interface WrittenItemProps {
+  region: WrittenRegion;
+  entry?: WrittenScore;
+  selected: boolean;
+  onSelect: () => void;
+  onConfirm: (score: number | null) => void;
+}
+
+// คะแนนข้อเขียนหนึ่งข้อ: แสดงคะแนนและเหตุผลที่ AI เสนอ ครูยืนยันหรือปรับคะแนน
+const WrittenItem = ({ region, entry, selected, onSelect, onConfirm }: WrittenItemProps) => {
+  const [value, setValue] = useState<string>(String(entry?.score ?? entry?.aiScore ?? ''));
+  const confirmed = entry?.score !== undefined && entry.score !== null;
+
+  return (
+    <div className={selected ? 'bg-emerald-50' : ''}>
+      <button onClick={onSelect} className="w-full p-3 flex items-center gap-2 text-left text-sm hover:bg-slate-50">
+        <span className="font-bold text-slate-600 flex-grow">{region.label}</span>
+        {confirmed ? (
+          <span className="font-bold text-emerald-600">{entry!.score} / {region.maxScore}</span>
+        ) : (
+          <span className="text-[10px] font-bold text-amber-600">
+            {entry?.aiScore !== undefined ? `AI เสนอ ${entry.aiScore} / ${region.maxScore} · รอยืนยัน` : 'ยังไม่ให้คะแนน'}
+          </span>
+        )}
+      </button>
+      {selected && (
+        <div className="px-3 pb-3 space-y-2">
+          {entry?.transcript && <p className="text-[11px] text-slate-500">ข้อความที่อ่านได้: {entry.transcript}</p>}
+          {entry?.aiReason && (
+            <p className="text-[11px] text-purple-600">
+              <i className="fas fa-robot mr-1"></i>AI เสนอ {entry.aiScore} คะแนน: {entry.aiReason}
+            </p>
+          )}
+          {region.rubric && <p className="text-[11px] text-slate-400">เกณฑ์: {region.rubric}</p>}
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0}
+              max={region.maxScore}
+              step={0.5}
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              className="border rounded-lg p-1 w-16 text-center text-sm"
+            />
+            <span className="text-xs text-slate-400">/ {region.maxScore}</span>
+            <button
+              onClick={() => onConfirm(parseFloat(value) || 0)}
+              disabled={value === ''}
+              className="px-3 py-1 rounded-lg bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-40"
+            >
+              ยืนยันคะแนน
+            </button>
+            {confirmed && (
+              <button onClick={() => onConfirm(null)} className="text-xs text-slate-500 hover:underline">ยกเลิกการยืนยัน</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default function ReviewPanel({ result, master, onChange, onClose, onProposeWritten, proposing }: ReviewPanelProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+  const writtenRegions = master.writtenRegions ?? [];
+  const [page, setPage] = useState(1);
+  const detailByQuestion = new Map(result.details.map(d => [d.question, d]));
+  const pageImages = [result.imageUrl, ...(result.extraPageImages ?? [])];
+
+  // เลือกข้อจากรายการแล้วเปิดหน้าที่มีข้อนั้น
+  const selectQuestion = (question: number | null) => {
+    setSelected(question);
+    const box = question !== null ? master.boxes.find(b => b.questionNumber === question) : undefined;
+    if (box) setPage(box.page ?? 1);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-[150] flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[95vh] flex flex-col animate-fadeIn">
+        <div className="flex justify-between items-center p-4 border-b">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">{result.studentId}. {result.studentName}</h3>
+            <p className="text-sm text-slate-500">
+              คะแนน <span className="font-bold text-blue-600">{result.score}</span> / {result.total}
+              {result.sourceFileName && <span className="ml-2 text-slate-400">({result.sourceFileName})</span>}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-lg text-slate-500">
+            <i className="fas fa-times text-xl"></i>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 px-4 py-2 border-b text-[11px] text-slate-500">
+          {LEGEND.map(l => (
+            <span key={l.state} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 border-2 ${BOX_STYLES[l.state]}`}></span> {l.label}
+            </span>
+          ))}
+        </div>
+
+        {pageImages.length > 1 && (
+          <div className="flex gap-1 px-4 pt-2 border-b">
+            {pageImages.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => setPage(i + 1)}
+                className={`px-3 py-1.5 rounded-t-lg text-xs font-bold ${page === i + 1 ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+              >
+                หน้า {i + 1}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row flex-grow overflow-hidden">
+          <div className="md:w-2/3 overflow-auto bg-slate-100 p-4">
+            {pageImages[page - 1] ? (
+              <div className="relative inline-block w-full">
+                <img src={pageImages[page - 1]} alt="กระดาษคำตอบ" className="w-full block" />
+                {onPage(master.boxes, page).map(box => {
+                  const detail = detailByQuestion.get(box.questionNumber);
+                  const density = detail?.densities?.[box.optionLabel];
+                  const markState = detail?.markStates?.[box.optionLabel];
+                  const isSelected = selected === box.questionNumber;
+                  return (
+                    <button
+                      key={box.id}
+                      onClick={() => setSelected(box.questionNumber)}
+                      title={`ข้อ ${box.questionNumber} ${box.optionLabel}${markState ? ` · ${MARK_CLASS_LABELS[markState]}` : ''}${density !== undefined ? ` · หมึก ${(density * 100).toFixed(1)}%` : ''}`}
+                      className={`absolute border-2 ${BOX_STYLES[boxState(box, detail)]} ${isSelected ? 'ring-2 ring-purple-500 ring-offset-1' : ''}`}
+                      style={{ left: `${box.x}%`, top: `${box.y}%`, width: `${box.w}%`, height: `${box.h}%` }}
+                    >
+                      {density !== undefined && (
+                        <span className="absolute -top-3 left-0 text-[8px] leading-none bg-white/80 px-0.5 text-slate-700">
+                          {Math.round(density * 100)}
+                        </span>
+                      )}
+                    </button>
+                  );
+                })}
+                {onPage(writtenRegions, page).map(region => (
+                  <button
+                    key={region.id}
+                    onClick={() => setSelectedRegion(region.id)}
+                    title={region.label}
+                    className={`absolute border-2 border-emerald-500 ${selectedRegion === region.id ? 'bg-emerald-400/20 ring-2 ring-emerald-500 ring-offset-1' : ''}`}
+                    style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.w}%`, height: `${region.h}%` }}
+                  ></button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-center text-slate-400 py-16">ไม่มีภาพกระดาษคำตอบสำหรับผลการตรวจนี้</p>
+            )}
+          </div>
+
+          <div className="md:w-1/3 overflow-y-auto border-l divide-y">
+            {writtenRegions.length > 0 && (
+              <div className="p-3 bg-slate-50 flex items-center justify-between text-xs">
+                <span className="font-bold text-slate-600">ข้อเขียน</span>
+                {onProposeWritten && (
+                  <button onClick={onProposeWritten} disabled={proposing} className="font-bold text-purple-600 hover:underline disabled:opacity-40">
+                    {proposing ? <><i className="fas fa-spinner fa-spin mr-1"></i>กำลังเสนอคะแนน...</> : <><i className="fas fa-robot mr-1"></i>ให้ AI เสนอคะแนน</>}
+                  </button>
+                )}
+              </div>
+            )}
+            {writtenRegions.map(region => {
+              const entry = writtenEntry(result, region.id);
+              return (
+                // สร้างใหม่เมื่อ AI เสนอคะแนนเข้ามา เพื่อให้ช่องกรอกใช้คะแนนที่เสนอ
+                <div key={`${region.id}-${entry?.aiScore ?? ''}`}>
+                  <WrittenItem
+                    region={region}
+                    entry={entry}
+                    selected={selectedRegion === region.id}
+                    onSelect={() => {
+                      setSelectedRegion(selectedRegion === region.id ? null : region.id);
+                      setPage(region.page ?? 1);
+                    }}
+                    onConfirm={score => onChange(confirmWrittenScore(result, region, score))}
+                  />
+                </div>
+              );
+            })}
+            {writtenRegions.length > 0 && (
+              <div className="p-3 bg-slate-50 text-xs font-bold text-slate-600">ปรนัย</div>
+            )}
+            {result.details.map(d => {
+              const isSelected = selected === d.question;
+              const lowConfidence = d.confidence < LOW_CONFIDENCE;
+              return (
+                <div key={d.question} className={isSelected ? 'bg-purple-50' : ''}>
+                  <button onClick={() => selectQuestion(isSelected ? null : d.question)} className="w-full p-3 flex items-center gap-2 text-left text-sm hover:bg-slate-50">
+                    <span className="font-bold text-slate-600 w-14">ข้อ {d.question}</span>
+                    <span className={`font-bold w-8 text-center ${d.isCorrect ? 'text-green-600' : 'text-red-500'}`}>{d.studentAnswer || '-'}</span>
+                    <span className="text-slate-400 text-xs flex-grow">เฉลย {d.correctAnswer || '-'}</span>
+                    {d.override && <span className="text-[10px] text-purple-600 font-bold">แก้ไขแล้ว</span>}
+                    {d.isWarning && !d.override && <i className="fas fa-clone text-amber-500" title={(d.markedLabels ?? []).length > 1 ? 'มาร์คหลายช่อง' : 'ขีดฆ่าทุกช่อง'}></i>}
+                    {lowConfidence && !d.override && <i className="fas fa-question-circle text-amber-500" title="อ่านไม่ชัด"></i>}
+                    <span className="text-[10px] text-slate-400 w-10 text-right">{Math.round(d.confidence * 100)}%</span>
+                  </button>
+                  {isSelected && (
+                    <div className="px-3 pb-3">
+                      <p className="text-[11px] text-slate-500 mb-2">
+                        เลือกคำตอบที่ถูกต้องของนักเรียน
+                        {d.override && ` (เครื่องอ่านได้: ${d.override.originalAnswer || 'ว่าง'})`}
+                      </p>
+                      {d.markStates && Object.values(d.markStates).some(state => state !== 'empty') && (
+                        <p className="text-[11px] text-slate-400 mb-2">
+                          ลักษณะรอย: {Object.entries(d.markStates)
+                            .filter(([, state]) => state !== 'empty')
+                            .map(([label, state]) => `${label} ${MARK_CLASS_LABELS[state]}`)
+                            .join(' · ')}
+                        </p>
+                      )}
+                      {d.aiOpinion && (
+                        <p className="text-[11px] text-purple-600 mb-2">
+                          <i className="fas fa-robot mr-1"></i>
+                          {d.aiOpinion.status === 'unclear' ? 'AI อ่านข้อนี้ไม่ชัด' : `AI อ่านได้: ${d.aiOpinion.answer || 'ว่าง'}`}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-1">
+                        {[...questionOptions(master, d.question), ''].map(option => (
+                          <button
+                            key={option || 'blank'}
+                            onClick={() => onChange(overrideAnswer(result, master, d.question, option))}
+                            className={`px-3 py-1 rounded-lg border text-sm font-bold ${d.studentAnswer === option ? 'bg-purple-600 text-white border-purple-600' : 'hover:bg-white'}`}
+                          >
+                            {option || 'ว่าง'}
+                          </button>
+                        ))}
+                        {d.override && (
+                          <button onClick={() => onChange(overrideAnswer(result, master, d.question, null))} className="px-3 py-1 rounded-lg text-xs text-slate-500 hover:underline">
+                            คืนค่าเดิม
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
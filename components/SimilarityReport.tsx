@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { GradingResult, MasterConfig } from '../types.ts';
+import {
+  comparePair, findSimilarPairs, MatchKind, MIN_SHARED_ANSWERS, SIMILARITY_LEVEL_LABELS, SimilarityLevel
+} from '../services/similarity.ts';
+
+interface SimilarityReportProps {
+  results: GradingResult[];
+  master: MasterConfig;
+  onOpenReview: (index: number) => void;
+}
+
+const DEFAULT_VISIBLE = 10;
+
+const LEVEL_STYLES: Record<SimilarityLevel, string> = {
+  'high': 'bg-red-50 text-red-600 border-red-100',
+  'watch': 'bg-amber-50 text-amber-700 border-amber-100',
+  'none': 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const KIND_STYLES: Record<MatchKind, string> = {
+  'same-wrong': 'bg-red-100 text-red-700 font-bold',
+  'same-blank': 'bg-amber-100 text-amber-700 font-bold',
+  'same-correct': 'text-emerald-600',
+  'different': 'text-slate-400'
+};
+
+const formatProbability = (p: number) => (p < 0.0001 ? p.toExponential(1) : p.toFixed(4));
+
+const answerText = (answer: string) => answer || '-';
+
+// รายงานคู่ที่ตอบผิดเหมือนกันผิดปกติ เรียงตามโอกาสที่จะเกิดขึ้นโดยบังเอิญจากน้อยไปมาก
+export default function SimilarityReport({ results, master, onOpenReview }: SimilarityReportProps) {
+  // เทียบทุกคู่ (จำนวนคู่โตตามกำลังสองของจำนวนผู้สอบ) จึงคำนวณใหม่เฉพาะเมื่อผลตรวจเปลี่ยน
+  const { pairs, pairCount, skippedVersions } = useMemo(() => findSimilarPairs(results, master), [results, master]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const flagged = pairs.filter(p => p.level !== 'none');
+  const visible = showAll ? pairs : pairs.slice(0, Math.max(DEFAULT_VISIBLE, flagged.length));
+  const hasVersions = (master.versions ?? []).length > 0;
+  const studentLabel = (index: number) => `${results[index].studentId}. ${results[index].studentName}`;
+
+  // ตารางคำตอบเทียบกันทีละข้อ
+  const renderComparison = (a: number, b: number) => {
+    const questions = comparePair(results[a], results[b]);
+    return (
+      <table className="text-[11px]">
+        <tbody>
+          <tr>
+            <th className="pr-2 py-1 text-left text-slate-500 font-normal">ข้อ</th>
+            {questions.map(q => <td key={q.question} className="px-1.5 py-1 text-center text-slate-400">{q.question}</td>)}
+          </tr>
+          <tr>
+            <th className="pr-2 py-1 text-left text-slate-500 font-normal">เฉลย</th>
+            {questions.map(q => <td key={q.question} className="px-1.5 py-1 text-center text-slate-500">{answerText(q.correctAnswer)}</td>)}
+          </tr>
+          <tr>
+            <th className="pr-2 py-1 text-left text-slate-500 font-normal whitespace-nowrap">เลขที่ {results[a].studentId}</th>
+            {questions.map(q => <td key={q.question} className={`px-1.5 py-1 text-center rounded ${KIND_STYLES[q.kind]}`}>{answerText(q.answerA)}</td>)}
+          </tr>
+          <tr>
+            <th className="pr-2 py-1 text-left text-slate-500 font-normal whitespace-nowrap">เลขที่ {results[b].studentId}</th>
+            {questions.map(q => <td key={q.question} className={`px-1.5 py-1 text-center rounded ${KIND_STYLES[q.kind]}`}>{answerText(q.answerB)}</td>)}
+          </tr>
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="text-sm text-slate-600 space-y-1">
+        <p>
+          เทียบทั้งหมด {pairCount} คู่ พบคู่<span className="font-bold text-red-600">น่าสงสัยมาก {flagged.filter(p => p.level === 'high').length} คู่</span>
+          {' '}และ<span className="font-bold text-amber-700">ควรตรวจสอบ {flagged.filter(p => p.level === 'watch').length} คู่</span>
+        </p>
+        <p className="text-xs text-slate-400">
+          นับเฉพาะข้อที่ทั้งคู่ตอบผิดหรือเว้นว่าง{hasVersions ? ' เทียบเฉพาะคนที่ทำข้อสอบชุดเดียวกัน' : ''} ผลนี้เป็นข้อบ่งชี้ทางสถิติเท่านั้น
+          ควรพิจารณาร่วมกับหลักฐานอื่น เช่น ผังที่นั่งสอบ
+        </p>
+        {skippedVersions.length > 0 && (
+          <p className="text-xs text-amber-700">
+            <i className="fas fa-exclamation-triangle mr-1"></i>ไม่ได้เทียบชุด {skippedVersions.join(', ')} เพราะมีผู้สอบน้อยเกินไป
+          </p>
+        )}
+      </div>
+
+      {pairs.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-4">ไม่พบคู่ที่ตอบผิดเหมือนกันตั้งแต่ {MIN_SHARED_ANSWERS} ข้อขึ้นไป</p>
+      ) : (
+        <div className="overflow-x-auto border rounded-xl">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="p-2 text-left">นักเรียน</th>
+                {hasVersions && <th className="p-2 text-center">ชุด</th>}
+                <th className="p-2 text-center" title="ข้อที่ทั้งคู่ตอบผิดหรือเว้นว่าง">ผิดทั้งคู่</th>
+                <th className="p-2 text-center">ผิดเหมือนกัน</th>
+                <th className="p-2 text-center">ว่างเหมือนกัน</th>
+                <th className="p-2 text-center" title="จำนวนข้อที่คาดว่าจะเหมือนกันโดยบังเอิญ">คาดหมาย</th>
+                <th className="p-2 text-center" title="โอกาสที่จะเหมือนกันเท่านี้หรือมากกว่าโดยบังเอิญ">โอกาส</th>
+                <th className="p-2 text-left">ผล</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {visible.map(pair => {
+                const id = `${pair.a}-${pair.b}`;
+                const open = selected === id;
+                return (
+                  <React.Fragment key={id}>
+                    <tr onClick={() => setSelected(open ? null : id)} className={`cursor-pointer hover:bg-slate-50 ${open ? 'bg-blue-50/40' : ''}`}>
+                      <td className="p-2">
+                        <p className="font-bold text-slate-700">{studentLabel(pair.a)}</p>
+                        <p className="font-bold text-slate-700">{studentLabel(pair.b)}</p>
+                      </td>
+                      {hasVersions && <td className="p-2 text-center">{pair.versionLabel}</td>}
+                      <td className="p-2 text-center">{pair.bothWrong}</td>
+                      <td className="p-2 text-center font-bold text-red-600">{pair.sameWrong}</td>
+                      <td className="p-2 text-center font-bold text-amber-700">{pair.sameBlank}</td>
+                      <td className="p-2 text-center">{pair.expected.toFixed(1)}</td>
+                      <td className="p-2 text-center font-mono">{formatProbability(pair.probability)}</td>
+                      <td className="p-2">
+                        <span className={`px-2 py-0.5 rounded-full border text-[10px] ${LEVEL_STYLES[pair.level]}`}>{SIMILARITY_LEVEL_LABELS[pair.level]}</span>
+                      </td>
+                    </tr>
+                    {open && (
+                      <tr>
+                        <td colSpan={hasVersions ? 8 : 7} className="p-3 bg-slate-50">
+                          <div className="overflow-x-auto">
+                            {renderComparison(pair.a, pair.b)}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 mt-2 text-[11px]">
+                            <span className="px-2 rounded bg-red-100 text-red-700">ผิดเหมือนกัน</span>
+                            <span className="px-2 rounded bg-amber-100 text-amber-700">เว้นว่างเหมือนกัน</span>
+                            <span className="text-emerald-600">ถูกเหมือนกัน</span>
+                            <button onClick={() => onOpenReview(pair.a)} className="ml-auto text-blue-600 hover:underline">ดูกระดาษ {results[pair.a].studentId}</button>
+                            <button onClick={() => onOpenReview(pair.b)} className="text-blue-600 hover:underline">ดูกระดาษ {results[pair.b].studentId}</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pairs.length > visible.length && (
+        <button onClick={() => setShowAll(true)} className="text-xs text-blue-600 hover:underline">
+          แสดงทั้งหมด {pairs.length} คู่
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { SheetTemplate } from '../types.ts';
+import { deleteTemplate, listTemplates, saveTemplate } from '../services/storage.ts';
+import { downloadSheetSvg, generateSheetTemplate, printSheet, SheetSpec } from '../services/sheetTemplates.ts';
+import { OPTION_LABELS } from '../services/answerKey.ts';
+import { VERSION_LABELS } from '../services/versions.ts';
+
+interface TemplateManagerProps {
+  questionCount: number;
+  optionCount: number;
+  subjectName: string;
+  onUse: (template: SheetTemplate) => void;
+}
+
+export default function TemplateManager({ questionCount, optionCount, subjectName, onUse }: TemplateManagerProps) {
+  const [templates, setTemplates] = useState<SheetTemplate[]>([]);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [spec, setSpec] = useState<SheetSpec>({
+    name: subjectName,
+    questionCount,
+    optionCount,
+    columns: questionCount > 30 ? 3 : 2,
+    idDigits: 5,
+    versionCount: 0
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const run = async (action: () => unknown) => {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleGenerate = () => run(async () => {
+    const template = generateSheetTemplate({ ...spec, name: spec.name.trim() || `${spec.questionCount} ข้อ` });
+    await saveTemplate(template);
+    setShowGenerator(false);
+  });
+
+  const handleDelete = (template: SheetTemplate) => {
+    if (!window.confirm(`ลบแม่แบบ "${template.name}"?`)) return;
+    run(() => deleteTemplate(template.id));
+  };
+
+  const numberField = (label: string, key: keyof Omit<SheetSpec, 'name'>, min: number, max: number) => (
+    <label className="text-xs text-slate-500">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={spec[key]}
+        onChange={e => setSpec({ ...spec, [key]: Math.min(max, Math.max(min, parseInt(e.target.value) || min)) })}
+        className="block w-full border rounded-lg p-2 mt-1 text-sm text-slate-800"
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-8 text-left border-t pt-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-bold text-slate-700">
+          <i className="fas fa-th-list mr-2 text-blue-500"></i>หรือใช้แม่แบบกระดาษคำตอบ (ไม่ต้องถ่ายภาพเฉลย)
+        </h3>
+        <button onClick={() => setShowGenerator(!showGenerator)} className="text-sm text-blue-600 font-bold hover:underline">
+          <i className="fas fa-plus mr-1"></i> สร้างกระดาษคำตอบ
+        </button>
+      </div>
+
+      {showGenerator && (
+        <div className="bg-slate-50 border rounded-xl p-4 mb-4">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-3">
+            <label className="text-xs text-slate-500 col-span-2 md:col-span-3">
+              ชื่อแม่แบบ
+              <input
+                type="text"
+                value={spec.name}
+                onChange={e => setSpec({ ...spec, name: e.target.value })}
+                className="block w-full border rounded-lg p-2 mt-1 text-sm text-slate-800"
+              />
+            </label>
+            {numberField('จำนวนข้อ', 'questionCount', 1, 200)}
+            {numberField('ตัวเลือกต่อข้อ', 'optionCount', 2, OPTION_LABELS.length)}
+            {numberField('จำนวนคอลัมน์', 'columns', 1, 4)}
+            {numberField('หลักเลขประจำตัว (0 = ไม่มี)', 'idDigits', 0, 12)}
+            {numberField('จำนวนชุดข้อสอบ (0 = ไม่มี)', 'versionCount', 0, VERSION_LABELS.length)}
+          </div>
+          <button onClick={handleGenerate} className="bg-blue-600 text-white px-4 py-2 rounded-lg font-bold text-sm hover:bg-blue-700">
+            สร้างและบันทึกแม่แบบ
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-sm mb-3">{error}</p>}
+      {templates.length === 0 && !showGenerator && (
+        <p className="text-sm text-slate-400">ยังไม่มีแม่แบบ บันทึกจากภาพเฉลยที่ตรวจแล้ว หรือสร้างกระดาษคำตอบใหม่</p>
+      )}
+
+      <div className="space-y-2">
+        {templates.map(t => (
+          <div key={t.id} className="flex items-center gap-3 border rounded-xl p-3">
+            <img src={t.imageUrl} alt="" className="w-12 h-16 object-cover border rounded bg-white" />
+            <div className="flex-grow">
+              <p className="font-bold text-slate-700">{t.name}</p>
+              <p className="text-xs text-slate-500">
+                {t.questionCount} ข้อ · {t.optionCount} ตัวเลือก
+                {t.idDigits > 0 && ` · เลขประจำตัว ${t.idDigits} หลัก`}
+                {' · '}{t.source === 'generated' ? 'สร้างจากแอป' : 'จากภาพเฉลย'}
+              </p>
+            </div>
+            {t.source === 'generated' && (
+              <>
+                <button onClick={() => run(() => printSheet(t))} className="text-slate-500 hover:text-blue-600 p-2" title="พิมพ์ / บันทึกเป็น PDF">
+                  <i className="fas fa-print"></i>
+                </button>
+                <button onClick={() => downloadSheetSvg(t)} className="text-slate-500 hover:text-blue-600 p-2" title="ดาวน์โหลด SVG">
+                  <i className="fas fa-download"></i>
+                </button>
+              </>
+            )}
+            <button onClick={() => handleDelete(t)} className="text-slate-400 hover:text-red-600 p-2" title="ลบ">
+              <i className="fas fa-trash"></i>
+            </button>
+            <button onClick={() => onUse(t)} className="bg-green-600 text-white px-3 py-1.5 rounded-lg text-sm font-bold hover:bg-green-700">
+              ใช้แม่แบบนี้
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
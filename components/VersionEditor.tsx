@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ExamVersion, MasterConfig } from '../types.ts';
+import { questionOptions } from '../services/answerKey.ts';
+import { baseVersionLabel, validateQuestionMap, VERSION_LABELS } from '../services/versions.ts';
+
+interface VersionEditorProps {
+  master: MasterConfig;
+  questionCount: number;
+  onChange: (master: MasterConfig) => void;
+}
+
+export default function VersionEditor({ master, questionCount, onChange }: VersionEditorProps) {
+  const versions = master.versions ?? [];
+  const base = baseVersionLabel(master);
+  const [selected, setSelected] = useState<string | null>(versions[0]?.label ?? null);
+  const current = versions.find(v => v.label === selected);
+  const usedLabels = [base, ...versions.map(v => v.label)];
+  const nextLabel = VERSION_LABELS.find(l => !usedLabels.includes(l));
+
+  const setVersions = (next: ExamVersion[]) => onChange({ ...master, versions: next });
+
+  const updateVersion = (label: string, patch: Partial<ExamVersion>) =>
+    setVersions(versions.map(v => (v.label === label ? { ...v, ...patch } : v)));
+
+  const addVersion = () => {
+    if (!nextLabel) return;
+    const questionMap: Record<number, number> = {};
+    for (let q = 1; q <= questionCount; q++) questionMap[q] = q;
+    setVersions([...versions, { label: nextLabel, correctAnswers: {}, questionMap }]);
+    setSelected(nextLabel);
+  };
+
+  const removeVersion = (label: string) => {
+    if (!window.confirm(`ลบเฉลยชุด ${label}?`)) return;
+    const next = versions.filter(v => v.label !== label);
+    setVersions(next);
+    setSelected(next[0]?.label ?? null);
+  };
+
+  const issues = versions.flatMap(v => validateQuestionMap(v, questionCount));
+
+  return (
+    <div className="border rounded-xl p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="font-bold text-slate-700 mr-2">ชุดข้อสอบ</h3>
+        <span className="text-xs text-slate-500">เฉลยด้านบนคือชุด</span>
+        <select
+          value={base}
+          onChange={e => onChange({ ...master, baseVersionLabel: e.target.value })}
+          className="border rounded-lg p-1 text-sm font-bold"
+        >
+          {VERSION_LABELS.filter(l => l === base || !versions.some(v => v.label === l)).map(l => <option key={l} value={l}>{l}</option>)}
+        </select>
+        {versions.map(v => (
+          <button
+            key={v.label}
+            onClick={() => setSelected(v.label)}
+            className={`px-3 py-1 rounded-lg text-sm font-bold border ${selected === v.label ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-slate-50'}`}
+          >
+            ชุด {v.label}
+          </button>
+        ))}
+        {nextLabel && (
+          <button onClick={addVersion} className="px-3 py-1 rounded-lg text-sm text-blue-600 border border-dashed border-blue-300 hover:bg-blue-50">
+            <i className="fas fa-plus mr-1"></i> เพิ่มชุด {nextLabel}
+          </button>
+        )}
+      </div>
+
+      {(master.versionBoxes ?? []).length > 0 && versions.length > 0 && (
+        <p className="text-xs text-slate-500 mb-3">
+          <i className="fas fa-check-circle text-green-500 mr-1"></i> พบช่องระบายชุดข้อสอบบนกระดาษ ระบบจะอ่านชุดของนักเรียนแต่ละคนอัตโนมัติ
+        </p>
+      )}
+
+      {current && (
+        <>
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-xs text-slate-500">กรอกเฉลยชุด {current.label} และระบุว่าแต่ละข้อตรงกับข้อใดในชุด {base}</p>
+            <button onClick={() => removeVersion(current.label)} className="text-xs text-red-500 hover:underline">ลบชุดนี้</button>
+          </div>
+          <div className="max-h-72 overflow-y-auto border rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-100 sticky top-0">
+                <tr>
+                  <th className="p-2 text-left">ข้อ (ชุด {current.label})</th>
+                  <th className="p-2 text-center">คำตอบเฉลย</th>
+                  <th className="p-2 text-center">ตรงกับข้อในชุด {base}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {Array.from({ length: questionCount }).map((_, i) => {
+                  const q = i + 1;
+                  return (
+                    <tr key={q}>
+                      <td className="p-2 font-bold text-slate-600">ข้อ {q}</td>
+                      <td className="p-2 text-center">
+                        <select
+                          value={current.correctAnswers[q] || ''}
+                          onChange={e => updateVersion(current.label, { correctAnswers: { ...current.correctAnswers, [q]: e.target.value } })}
+                          className="border-2 border-slate-200 p-1 rounded-lg w-16 text-center font-bold text-blue-600"
+                        >
+                          <option value="">-</option>
+                          {questionOptions(master, current.questionMap[q] || q).map(l => <option key={l} value={l}>{l}</option>)}
+                        </select>
+                      </td>
+                      <td className="p-2 text-center">
+                        <input
+                          type="number"
+                          min={1}
+                          max={questionCount}
+                          value={current.questionMap[q] ?? ''}
+                          onChange={e => updateVersion(current.label, { questionMap: { ...current.questionMap, [q]: parseInt(e.target.value) || 0 } })}
+                          className="border-2 border-slate-200 p-1 rounded-lg w-20 text-center"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="mt-3 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2 max-h-24 overflow-y-auto">
+          {issues.map((issue, i) => <li key={i}><i className="fas fa-exclamation-triangle mr-1"></i>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
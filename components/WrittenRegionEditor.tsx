@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { BoxRegion, MasterConfig, WrittenRegion } from '../types.ts';
+import { masterPages, onPage } from '../services/pages.ts';
+import { writtenTotal } from '../services/writtenGrading.ts';
+
+interface WrittenRegionEditorProps {
+  master: MasterConfig;
+  onChange: (master: MasterConfig) => void;
+}
+
+// กรอบที่เล็กกว่านี้ (% ของภาพ) ถือว่าคลิกพลาด ไม่สร้างกรอบ
+const MIN_REGION_SIZE = 1;
+
+const nextRegionId = (regions: WrittenRegion[]): string => {
+  const max = regions.reduce((m, r) => Math.max(m, parseInt(r.id.replace(/\D/g, '')) || 0), 0);
+  return `written-${max + 1}`;
+};
+
+export default function WrittenRegionEditor({ master, onChange }: WrittenRegionEditorProps) {
+  const regions = master.writtenRegions ?? [];
+  const pages = masterPages(master);
+  const [page, setPage] = useState(1);
+  const [drawing, setDrawing] = useState<string | 'new' | null>(null); // id ของกรอบที่กำลังวาดใหม่
+  const [draft, setDraft] = useState<BoxRegion | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const setRegions = (next: WrittenRegion[]) => onChange({ ...master, writtenRegions: next });
+
+  const updateRegion = (id: string, patch: Partial<WrittenRegion>) =>
+    setRegions(regions.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const removeRegion = (region: WrittenRegion) => {
+    if (!window.confirm(`ลบ ${region.label}?`)) return;
+    setRegions(regions.filter(r => r.id !== region.id));
+  };
+
+  const toPercent = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!drawing) return;
+    e.preventDefault();
+    startRef.current = toPercent(e);
+    containerRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const p = toPercent(e);
+    setDraft({ x: Math.min(start.x, p.x), y: Math.min(start.y, p.y), w: Math.abs(p.x - start.x), h: Math.abs(p.y - start.y) });
+  };
+
+  const handlePointerUp = () => {
+    const rect = draft;
+    startRef.current = null;
+    setDraft(null);
+    if (!rect || rect.w < MIN_REGION_SIZE || rect.h < MIN_REGION_SIZE) return;
+    const placed = { ...rect, ...(pages.length > 1 ? { page } : {}) };
+    if (drawing === 'new') {
+      setRegions([...regions, {
+        id: nextRegionId(regions),
+        label: `ข้อเขียน ${regions.length + 1}`,
+        rubric: '',
+        maxScore: 5,
+        ...placed
+      }]);
+    } else if (drawing) {
+      updateRegion(drawing, placed);
+    }
+    setDrawing(null);
+  };
+
+  return (
+    <div className="border rounded-xl p-4 mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h3 className="font-bold text-slate-700 mr-2">ข้อเขียน / ตอบสั้น</h3>
+        {regions.length > 0 && (
+          <span className="text-xs text-slate-500">{regions.length} ข้อ คะแนนเต็มรวม {writtenTotal(master)} คะแนน</span>
+        )}
+        <button
+          onClick={() => setDrawing(drawing === 'new' ? null : 'new')}
+          className={`ml-auto px-3 py-1 rounded-lg text-sm border ${drawing === 'new' ? 'bg-blue-600 text-white border-blue-600' : 'text-blue-600 border-dashed border-blue-300 hover:bg-blue-50'}`}
+        >
+          <i className="fas fa-plus mr-1"></i> {drawing === 'new' ? 'ลากกรอบบนภาพ...' : 'เพิ่มกรอบข้อเขียน'}
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-3">
+        ลากกรอบครอบพื้นที่ที่นักเรียนเขียนคำตอบ แล้วกำหนดเกณฑ์การให้คะแนน AI จะเสนอคะแนนพร้อมเหตุผล และครูยืนยันคะแนนในหน้าตรวจทาน
+      </p>
+
+      {(drawing || regions.length > 0) && (
+        <>
+          {pages.length > 1 && (
+            <div className="flex gap-1 border-b">
+              {pages.map((_, i) => (
+                <button
+                  key={i}
+                  onClick={() => setPage(i + 1)}
+                  className={`px-3 py-1.5 rounded-t-lg text-xs font-bold ${page === i + 1 ? 'bg-blue-600 text-white' : 'text-slate-500 hover:bg-slate-50'}`}
+                >
+                  หน้า {i + 1}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="max-h-[60vh] overflow-auto bg-slate-100 p-3 mb-3 rounded-b-lg">
+            <div
+              ref={containerRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className={`relative inline-block w-full select-none touch-none ${drawing ? 'cursor-crosshair' : ''}`}
+            >
+              <img src={pages[page - 1]?.imageUrl ?? master.imageUrl} alt="ภาพต้นแบบ" className="w-full block pointer-events-none" draggable={false} />
+              {onPage(regions, page).map(region => (
+                <div
+                  key={region.id}
+                  className={`absolute border-2 ${drawing === region.id ? 'border-purple-600 border-dashed' : 'border-emerald-500 bg-emerald-400/10'}`}
+                  style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.w}%`, height: `${region.h}%` }}
+                >
+                  <span className="absolute -top-4 left-0 text-[10px] leading-none bg-white/80 px-1 text-emerald-700 whitespace-nowrap">{region.label}</span>
+                </div>
+              ))}
+              {draft && (
+                <div
+                  className="absolute border-2 border-purple-600 bg-purple-400/20"
+                  style={{ left: `${draft.x}%`, top: `${draft.y}%`, width: `${draft.w}%`, height: `${draft.h}%` }}
+                ></div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="space-y-3">
+        {regions.map(region => (
+          <div key={region.id} className="border rounded-lg p-3 bg-slate-50/50 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <input
+                value={region.label}
+                onChange={e => updateRegion(region.id, { label: e.target.value })}
+                className="border rounded-lg p-1.5 font-bold flex-grow min-w-[160px]"
+              />
+              <span className="text-xs text-slate-500">คะแนนเต็ม</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={region.maxScore}
+                onChange={e => updateRegion(region.id, { maxScore: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="border rounded-lg p-1.5 w-16 text-center"
+              />
+              <button
+                onClick={() => { setPage(region.page ?? 1); setDrawing(drawing === region.id ? null : region.id); }}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {drawing === region.id ? 'ยกเลิกการวาด' : 'วาดกรอบใหม่'}
+              </button>
+              <button onClick={() => removeRegion(region)} className="text-xs text-red-500 hover:underline">ลบ</button>
+            </div>
+            <input
+              value={region.prompt ?? ''}
+              onChange={e => updateRegion(region.id, { prompt: e.target.value || undefined })}
+              placeholder="โจทย์ (ไม่บังคับ)"
+              className="border rounded-lg p-1.5 w-full text-sm"
+            />
+            <textarea
+              value={region.rubric}
+              onChange={e => updateRegion(region.id, { rubric: e.target.value })}
+              placeholder="เกณฑ์การให้คะแนน เช่น ระบุสาเหตุได้ถูกต้อง 2 คะแนน อธิบายผลกระทบ 2 คะแนน ใช้ภาษาถูกต้อง 1 คะแนน"
+              rows={2}
+              className={`border rounded-lg p-1.5 w-full text-sm ${region.rubric.trim() ? '' : 'border-amber-300'}`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
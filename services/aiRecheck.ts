@@ -0,0 +1,138 @@
+import { GradingDetail, GradingResult, MasterConfig } from "../types.ts";
+import { LOW_CONFIDENCE, overrideAnswer } from "./grader.ts";
+import { questionOptions } from "./answerKey.ts";
+import { AiQuestionRead, cropRegion, loadImage, QuestionCrop, recheckQuestions } from "./imageProcessor.ts";
+import { QUOTA_MESSAGE } from "./visionProvider.ts";
+
+// ส่งข้อที่เครื่องอ่านไม่ชัดให้ AI อ่านซ้ำ (ความเห็นที่สอง) แล้วให้ครูเป็นผู้ตัดสินเมื่อไม่ตรงกัน
+
+export const DEFAULT_AI_CALL_CAP = 30;
+const MAX_QUESTIONS_PER_CALL = 20;
+const CROP_MAX_WIDTH = 600;
+
+// ข้อที่ควรตรวจซ้ำ: มาร์คหลายช่อง ความมั่นใจต่ำ หรือมีรอยจาง/รอยขีดฆ่าที่ใกล้เกณฑ์
+export const needsRecheck = (d: GradingDetail): boolean =>
+  !d.override && !d.aiOpinion && d.maxPoints !== 0 &&
+  (d.isWarning || d.confidence < LOW_CONFIDENCE || Object.values(d.markStates ?? {}).some(s => s === 'faint' || s === 'cancelled'));
+
+export const recheckCandidates = (results: GradingResult[]): number =>
+  results.reduce((sum, r) => sum + r.details.filter(needsRecheck).length, 0);
+
+export const pendingOpinions = (results: GradingResult[]) =>
+  results.flatMap((result, index) =>
+    result.details.filter(d => d.aiOpinion?.status === 'pending').map(detail => ({ index, result, detail }))
+  );
+
+// ตัดแถวของข้อจากภาพที่จัดแนวแล้ว (รวมเลขข้อทางซ้าย) ภาพอยู่ในพิกัดเดียวกับต้นแบบ
+const cropQuestions = async (result: GradingResult, master: MasterConfig, questions: number[]): Promise<QuestionCrop[]> => {
+  const pageUrls = [result.imageUrl, ...(result.extraPageImages ?? [])];
+  const images = new Map<number, HTMLImageElement>();
+  const crops: QuestionCrop[] = [];
+  const canvas = document.createElement('canvas');
+
+  for (const question of questions) {
+    const boxes = master.boxes.filter(b => b.questionNumber === question);
+    const page = boxes[0]?.page ?? 1;
+    const url = pageUrls[page - 1];
+    if (boxes.length === 0 || !url) continue;
+    if (!images.has(page)) images.set(page, await loadImage(url));
+    const img = images.get(page)!;
+
+    const boxW = Math.max(...boxes.map(b => b.w));
+    const boxH = Math.max(...boxes.map(b => b.h));
+    const left = Math.max(0, Math.min(...boxes.map(b => b.x)) - boxW * 2.5);
+    const right = Math.min(100, Math.max(...boxes.map(b => b.x + b.w)) + boxW * 0.5);
+    const top = Math.max(0, Math.min(...boxes.map(b => b.y)) - boxH * 0.6);
+    const bottom = Math.min(100, Math.max(...boxes.map(b => b.y + b.h)) + boxH * 0.6);
+
+    const region = { x: left, y: top, w: right - left, h: bottom - top };
+    crops.push({ question, labels: questionOptions(master, question), imageUrl: cropRegion(canvas, img, region, CROP_MAX_WIDTH) });
+  }
+  return crops;
+};
+
+const applyReads = (result: GradingResult, reads: AiQuestionRead[]): GradingResult => {
+  const byQuestion = new Map(reads.map(r => [r.question, r]));
+  const checkedAt = Date.now();
+  return {
+    ...result,
+    details: result.details.map(d => {
+      const read = byQuestion.get(d.question);
+      if (!read) return d;
+      const status = read.unclear ? 'unclear' : read.answer === d.studentAnswer ? 'agreed' : 'pending';
+      return { ...d, aiOpinion: { answer: read.answer, status, checkedAt } };
+    })
+  };
+};
+
+// นำความเห็นของ AI ไปใส่ในแถวล่าสุดของแผ่นเดียวกัน โดยไม่ทับสิ่งที่ครูแก้ระหว่างที่ AI ตรวจอยู่
+// เทียบความเห็นกับคำตอบปัจจุบันอีกครั้ง เพราะครูอาจแก้คำตอบข้อนั้นไปแล้ว
+export const mergeOpinions = (current: GradingResult, checked: GradingResult): GradingResult => {
+  const opinions = new Map(checked.details.filter(d => d.aiOpinion).map(d => [d.question, d.aiOpinion!]));
+  return {
+    ...current,
+    details: current.details.map(d => {
+      const opinion = opinions.get(d.question);
+      if (!opinion || (d.aiOpinion && d.aiOpinion.checkedAt >= opinion.checkedAt)) return d;
+      const status = opinion.status === 'unclear' ? 'unclear' : opinion.answer === d.studentAnswer ? 'agreed' : 'pending';
+      return { ...d, aiOpinion: { ...opinion, status } };
+    })
+  };
+};
+
+export interface RecheckOptions {
+  callBudget: number; // จำนวนครั้งที่ยังเรียกได้ในรอบการตรวจนี้
+  onCall?: () => void;
+  onResult?: (original: GradingResult, updated: GradingResult) => void;
+}
+
+export interface RecheckSummary {
+  calls: number;
+  checkedQuestions: number;
+  disagreements: number;
+  stoppedReason?: string;
+}
+
+// ตรวจซ้ำทีละแผ่น (หนึ่งแผ่นใช้ 1 ครั้ง หรือมากกว่าถ้าข้อที่ต้องตรวจเกิน MAX_QUESTIONS_PER_CALL)
+// หยุดทันทีเมื่อครบเพดานหรือ API แจ้งโควต้าเต็ม ข้อที่ยังไม่ได้ตรวจคงสถานะเดิมไว้ตรวจต่อภายหลัง
+export const runRecheck = async (results: GradingResult[], master: MasterConfig, options: RecheckOptions): Promise<RecheckSummary> => {
+  const summary: RecheckSummary = { calls: 0, checkedQuestions: 0, disagreements: 0 };
+
+  for (const result of results) {
+    const questions = result.details.filter(needsRecheck).map(d => d.question);
+    let current = result;
+    for (let i = 0; i < questions.length; i += MAX_QUESTIONS_PER_CALL) {
+      if (summary.calls >= options.callBudget) {
+        summary.stoppedReason = "ครบจำนวนครั้งที่กำหนดสำหรับรอบการตรวจนี้แล้ว";
+        return summary;
+      }
+      try {
+        const crops = await cropQuestions(current, master, questions.slice(i, i + MAX_QUESTIONS_PER_CALL));
+        if (crops.length === 0) continue;
+        summary.calls++;
+        options.onCall?.();
+        const reads = await recheckQuestions(crops);
+        const updated = applyReads(current, reads);
+        summary.checkedQuestions += reads.length;
+        summary.disagreements += updated.details.filter(d => d.aiOpinion?.status === 'pending').length
+          - current.details.filter(d => d.aiOpinion?.status === 'pending').length;
+        options.onResult?.(current, updated);
+        current = updated;
+      } catch (err: any) {
+        // โควต้าเต็มหรือ API ใช้ไม่ได้ เรียกต่อก็ไม่สำเร็จ จึงหยุดทั้งรอบ
+        summary.stoppedReason = err.message === QUOTA_MESSAGE ? `${QUOTA_MESSAGE} (ตรวจซ้ำข้อที่เหลือได้ภายหลัง)` : err.message;
+        return summary;
+      }
+    }
+  }
+  return summary;
+};
+
+// ครูตัดสินความเห็นที่ไม่ตรงกัน: ใช้คำตอบของ AI (บันทึกเป็นการแก้ไขของครู) หรือคงคำตอบเดิม
+export const resolveOpinion = (result: GradingResult, master: MasterConfig, question: number, accept: boolean): GradingResult => {
+  const detail = result.details.find(d => d.question === question);
+  if (!detail?.aiOpinion) return result;
+  const opinion = { ...detail.aiOpinion, status: accept ? 'accepted' as const : 'rejected' as const };
+  const base = accept ? overrideAnswer(result, master, question, opinion.answer) : result;
+  return { ...base, details: base.details.map(d => (d.question === question ? { ...d, aiOpinion: opinion } : d)) };
+};
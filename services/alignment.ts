@@ -0,0 +1,254 @@
+import { Point, SheetRegistration } from "../types.ts";
+import { Component, GrayImage, histogram, labelComponents, otsuThreshold, toGray } from "./imageUtils.ts";
+
+// ขนาดภาพที่ใช้ค้นหามุมกระดาษ (ย่อเพื่อความเร็ว)
+const WORK_SIZE = 600;
+// ความละเอียดด้านยาวของภาพที่จัดแนวแล้ว
+const ALIGNED_SIZE = 1600;
+
+const IMAGE_CORNERS: Point[] = [
+  { x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const quadArea = (q: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < q.length; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % q.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+const isConvexQuad = (q: Point[]): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i], b = q[(i + 1) % 4], c = q[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+// ค้นหาเครื่องหมายสี่เหลี่ยมทึบ (fiducial) ที่มุมทั้ง 4 ของกระดาษ
+const findFiducials = (gray: GrayImage, threshold: number): SheetRegistration | null => {
+  const { width, height } = gray;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = gray.data[i] < threshold ? 1 : 0;
+  const { components } = labelComponents(mask, width, height);
+
+  const minSide = Math.min(width, height);
+  const candidates = components.filter(c => {
+    const bw = c.maxX - c.minX + 1;
+    const bh = c.maxY - c.minY + 1;
+    const aspect = bw / bh;
+    const fill = c.area / (bw * bh);
+    return bw >= minSide * 0.012 && bw <= minSide * 0.12 && aspect >= 0.6 && aspect <= 1.6 && fill >= 0.7;
+  });
+
+  const maxDist = Math.hypot(width, height) * 0.35;
+  const picked: Component[] = [];
+  for (const corner of IMAGE_CORNERS) {
+    const cx = corner.x * width;
+    const cy = corner.y * height;
+    let best: Component | null = null;
+    let bestDist = maxDist;
+    for (const c of candidates) {
+      const mx = c.sumX / c.area;
+      const my = c.sumY / c.area;
+      // ต้องอยู่ในส่วนหนึ่งในสี่ของภาพฝั่งเดียวกับมุมนั้น
+      if ((mx < width / 2) !== (corner.x === 0) || (my < height / 2) !== (corner.y === 0)) continue;
+      const d = Math.hypot(mx - cx, my - cy);
+      if (d < bestDist) {
+        bestDist = d;
+        best = c;
+      }
+    }
+    if (!best) return null;
+    picked.push(best);
+  }
+
+  const corners = picked.map(c => ({ x: (c.sumX / c.area + 0.5) / width, y: (c.sumY / c.area + 0.5) / height }));
+  if (!isConvexQuad(corners)) return null;
+
+  const sizes = picked.map(c => Math.sqrt(c.area));
+  const sizeRatio = Math.min(...sizes) / Math.max(...sizes);
+  const fill = picked.reduce((sum, c) => sum + c.area / ((c.maxX - c.minX + 1) * (c.maxY - c.minY + 1)), 0) / 4;
+  return { method: 'fiducial', corners, confidence: clamp01(fill * (0.5 + 0.5 * sizeRatio)) };
+};
+
+// ค้นหาขอบกระดาษ (บริเวณสว่างที่ใหญ่ที่สุด) เมื่อไม่มีเครื่องหมายที่มุม
+const findPaperEdges = (gray: GrayImage, threshold: number): SheetRegistration | null => {
+  const { width, height } = gray;
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = gray.data[i] >= threshold ? 1 : 0;
+  const { labels, components } = labelComponents(mask, width, height);
+  if (components.length === 0) return null;
+
+  const paper = components.reduce((a, b) => (b.area > a.area ? b : a));
+  let tl = { s: Infinity, x: 0, y: 0 }, br = { s: -Infinity, x: 0, y: 0 };
+  let tr = { s: -Infinity, x: 0, y: 0 }, bl = { s: Infinity, x: 0, y: 0 };
+  for (let y = paper.minY; y <= paper.maxY; y++) {
+    for (let x = paper.minX; x <= paper.maxX; x++) {
+      if (labels[y * width + x] !== paper.label) continue;
+      if (x + y < tl.s) tl = { s: x + y, x, y };
+      if (x + y > br.s) br = { s: x + y, x, y };
+      if (x - y > tr.s) tr = { s: x - y, x, y };
+      if (x - y < bl.s) bl = { s: x - y, x, y };
+    }
+  }
+
+  const quad = [tl, tr, br, bl].map(p => ({ x: p.x, y: p.y }));
+  if (!isConvexQuad(quad)) return null;
+
+  const area = quadArea(quad);
+  const rectangularity = clamp01(paper.area / area);
+  const coverage = area / (width * height);
+  let confidence = rectangularity * (coverage < 0.15 ? coverage / 0.15 : 1);
+  // กระดาษเต็มภาพจนไม่เห็นขอบ ตำแหน่งมุมจึงไม่น่าเชื่อถือ
+  if (coverage > 0.97) confidence *= 0.5;
+
+  return {
+    method: 'edges',
+    corners: quad.map(p => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height })),
+    confidence: clamp01(confidence)
+  };
+};
+
+export const registerSheet = (image: ImageData, method?: SheetRegistration['method']): SheetRegistration => {
+  const gray = toGray(image, WORK_SIZE);
+  const threshold = otsuThreshold(histogram(gray.data));
+
+  if (method !== 'edges' && method !== 'none') {
+    const fiducial = findFiducials(gray, threshold);
+    if (fiducial) return fiducial;
+  }
+  if (method !== 'fiducial' && method !== 'none') {
+    const edges = findPaperEdges(gray, threshold);
+    if (edges) return edges;
+  }
+  return { method: 'none', corners: IMAGE_CORNERS.map(p => ({ ...p })), confidence: 0 };
+};
+
+// คำนวณ homography 3x3 (แถวเรียง, h33 = 1) ที่แปลงจุด src ไปยัง dst
+export const computeHomography = (src: Point[], dst: Point[]): number[] | null => {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    a.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const f = a[r][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[r][k] -= f * a[col][k];
+    }
+  }
+  return [...a.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const applyHomography = (h: number[], p: Point): Point => {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return {
+    x: (h[0] * p.x + h[1] * p.y + h[2]) / w,
+    y: (h[3] * p.x + h[4] * p.y + h[5]) / w
+  };
+};
+
+// สร้างภาพใหม่ขนาด outW x outH โดย h แปลงพิกัดภาพผลลัพธ์ไปยังพิกัดภาพต้นทาง
+export const warpImage = (src: ImageData, h: number[], outW: number, outH: number): ImageData => {
+  const out = new ImageData(outW, outH);
+  const dst = out.data;
+  const s = src.data;
+  const sw = src.width;
+  const sh = src.height;
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const w = h[6] * x + h[7] * y + h[8];
+      const fx = (h[0] * x + h[1] * y + h[2]) / w;
+      const fy = (h[3] * x + h[4] * y + h[5]) / w;
+      const o = (y * outW + x) * 4;
+      dst[o + 3] = 255;
+      if (fx < 0 || fy < 0 || fx > sw - 1 || fy > sh - 1) {
+        dst[o] = dst[o + 1] = dst[o + 2] = 255;
+        continue;
+      }
+      const x0 = Math.floor(fx), y0 = Math.floor(fy);
+      const x1 = Math.min(x0 + 1, sw - 1), y1 = Math.min(y0 + 1, sh - 1);
+      const ax = fx - x0, ay = fy - y0;
+      const i00 = (y0 * sw + x0) * 4, i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4, i11 = (y1 * sw + x1) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = s[i00 + c] * (1 - ax) + s[i10 + c] * ax;
+        const bottom = s[i01 + c] * (1 - ax) + s[i11 + c] * ax;
+        dst[o + c] = top * (1 - ay) + bottom * ay;
+      }
+    }
+  }
+  return out;
+};
+
+const quadAspect = (q: Point[], width: number, height: number): number => {
+  const p = q.map(c => ({ x: c.x * width, y: c.y * height }));
+  const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const w = (dist(p[0], p[1]) + dist(p[3], p[2])) / 2;
+  const hgt = (dist(p[0], p[3]) + dist(p[1], p[2])) / 2;
+  return hgt > 0 ? w / hgt : 0;
+};
+
+export interface AlignmentResult {
+  image: ImageData;
+  registration: SheetRegistration;
+  confidence: number;
+}
+
+// จัดแนวภาพนักเรียนให้อยู่ในพิกัดเดียวกับภาพต้นแบบ ก่อนอ่านค่าหมึกตามตำแหน่งช่อง
+export const alignToMaster = (
+  student: ImageData,
+  master: { registration?: SheetRegistration; imageWidth?: number; imageHeight?: number }
+): AlignmentResult => {
+  const masterReg = master.registration;
+  if (!masterReg || masterReg.method === 'none' || !master.imageWidth || !master.imageHeight) {
+    return { image: student, registration: registerSheet(student, 'none'), confidence: 0 };
+  }
+
+  const studentReg = registerSheet(student, masterReg.method);
+  if (studentReg.method !== masterReg.method) {
+    return { image: student, registration: studentReg, confidence: 0 };
+  }
+
+  const scale = ALIGNED_SIZE / Math.max(master.imageWidth, master.imageHeight);
+  const outW = Math.round(master.imageWidth * scale);
+  const outH = Math.round(master.imageHeight * scale);
+  const dst = masterReg.corners.map(p => ({ x: p.x * outW, y: p.y * outH }));
+  const src = studentReg.corners.map(p => ({ x: p.x * student.width, y: p.y * student.height }));
+  const h = computeHomography(dst, src);
+  if (!h) {
+    return { image: student, registration: studentReg, confidence: 0 };
+  }
+
+  const masterAspect = quadAspect(masterReg.corners, master.imageWidth, master.imageHeight);
+  const studentAspect = quadAspect(studentReg.corners, student.width, student.height);
+  const aspectRatio = Math.min(masterAspect, studentAspect) / Math.max(masterAspect, studentAspect);
+  const plausibility = aspectRatio >= 0.8 ? 1 : clamp01(aspectRatio / 0.8);
+
+  return {
+    image: warpImage(student, h, outW, outH),
+    registration: studentReg,
+    confidence: clamp01(Math.min(masterReg.confidence, studentReg.confidence) * plausibility)
+  };
+};
@@ -0,0 +1,67 @@
+import { GradingDetail, MasterConfig, QuestionPolicy } from "../types.ts";
+
+// เฉลยแบบยืดหยุ่น: รับได้หลายคำตอบ ให้น้ำหนักคะแนน และยกเลิกข้อ
+
+export const OPTION_LABELS = ['ก', 'ข', 'ค', 'ง', 'จ'];
+export const TRUE_FALSE_LABELS = ['ถูก', 'ผิด'];
+export const ALL_OPTION_LABELS = [...OPTION_LABELS, ...TRUE_FALSE_LABELS];
+export const DEFAULT_OPTION_COUNT = 4;
+
+const labelOrder = (label: string) => {
+  const i = ALL_OPTION_LABELS.indexOf(label);
+  return i === -1 ? ALL_OPTION_LABELS.length : i;
+};
+
+export const sortOptionLabels = (labels: string[]): string[] =>
+  Array.from(new Set(labels)).sort((a, b) => labelOrder(a) - labelOrder(b));
+
+// ตัวเลือกของข้อนั้นตามช่องบนกระดาษ (ข้อถูก/ผิดมีสองตัวเลือก) ถ้าไม่มีช่องใช้จำนวนตัวเลือกของวิชา
+export const questionOptions = (master: MasterConfig, question: number, optionCount = DEFAULT_OPTION_COUNT): string[] => {
+  const labels = master.boxes.filter(b => b.questionNumber === question).map(b => b.optionLabel);
+  return labels.length > 0 ? sortOptionLabels(labels) : OPTION_LABELS.slice(0, optionCount);
+};
+
+export const POLICY_LABELS: Record<QuestionPolicy, string> = {
+  normal: 'ปกติ',
+  bonus: 'ให้คะแนนทุกคน',
+  drop: 'ตัดข้อทิ้ง'
+};
+
+export interface ResolvedKey {
+  accepted: string[];
+  points: number;
+  policy: QuestionPolicy;
+}
+
+export const resolveKey = (master: MasterConfig, question: number): ResolvedKey => {
+  const rule = master.questionRules?.[question];
+  const primary = master.correctAnswers[question];
+  const accepted = Array.from(new Set([primary, ...(rule?.alsoAccept ?? [])].filter(Boolean)));
+  const points = rule?.points !== undefined && rule.points >= 0 ? rule.points : 1;
+  return { accepted, points, policy: rule?.policy ?? 'normal' };
+};
+
+// ข้อที่มีเฉลยหรือมีการตั้งค่าพิเศษ เรียงตามเลขข้อ
+export const keyedQuestions = (master: MasterConfig): number[] =>
+  Array.from(new Set([...Object.keys(master.correctAnswers), ...Object.keys(master.questionRules ?? {})].map(Number)))
+    .filter(q => !isNaN(q))
+    .sort((a, b) => a - b);
+
+export const keyLabel = (key: ResolvedKey): string => key.accepted.join('/') || '-';
+
+export const scoreAnswer = (key: ResolvedKey, answer: string): Pick<GradingDetail, 'isCorrect' | 'points' | 'maxPoints'> => {
+  if (key.policy === 'drop') return { isCorrect: false, points: 0, maxPoints: 0 };
+  if (key.policy === 'bonus') return { isCorrect: true, points: key.points, maxPoints: key.points };
+  const isCorrect = answer !== '' && key.accepted.includes(answer);
+  return { isCorrect, points: isCorrect ? key.points : 0, maxPoints: key.points };
+};
+
+// คะแนนเต็มของทั้งฉบับ (ไม่นับข้อที่ตัดทิ้ง) รวมคะแนนเต็มของข้อเขียน
+export const totalPoints = (master: MasterConfig, questionCount: number): number => {
+  let total = (master.writtenRegions ?? []).reduce((sum, r) => sum + r.maxScore, 0);
+  for (let q = 1; q <= questionCount; q++) {
+    const key = resolveKey(master, q);
+    if (key.policy !== 'drop') total += key.points;
+  }
+  return total;
+};
@@ -0,0 +1,120 @@
+import { MasterConfig } from "../types.ts";
+import { readSubmission, SheetSource, SubmissionRead } from "./sheetReader.ts";
+import type { WorkerRequest, WorkerResponse } from "./gradingWorker.ts";
+
+// ตรวจกระดาษคำตอบเป็นชุดด้วย Web Worker หลายตัวพร้อมกัน ไฟล์ที่ตรวจไม่ได้รายงานแยกโดยไม่หยุดทั้งชุด
+
+export type BatchItemStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  name: string;
+  status: BatchItemStatus;
+  error?: string;
+}
+
+export interface BatchJob {
+  name: string;
+  sources: SheetSource[]; // ทุกหน้าของนักเรียนหนึ่งคน
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  signal?: AbortSignal;
+  onUpdate?: (index: number, item: BatchItem) => void;
+}
+
+const MAX_WORKERS = 4;
+
+// เว้นไว้หนึ่งคอร์สำหรับหน้าเว็บ
+export const defaultConcurrency = (): number =>
+  Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+
+// Worker ใช้เฉพาะตำแหน่งช่องและจุดอ้างอิง ไม่ต้องส่งภาพต้นแบบไปด้วย
+const workerMaster = (master: MasterConfig): MasterConfig => ({
+  ...master,
+  imageUrl: '',
+  extraPages: master.extraPages?.map(p => ({ ...p, imageUrl: '' }))
+});
+
+const createWorker = (master: MasterConfig): Worker | null => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null;
+  try {
+    const worker = new Worker(new URL('./gradingWorker.ts', import.meta.url), { type: 'module' });
+    const request: WorkerRequest = { type: 'master', master: workerMaster(master) };
+    worker.postMessage(request);
+    return worker;
+  } catch {
+    return null;
+  }
+};
+
+type WorkerOutcome = WorkerResponse | { type: 'crashed' } | { type: 'cancelled' };
+
+const runInWorker = (worker: Worker, jobId: number, sources: SheetSource[], signal?: AbortSignal): Promise<WorkerOutcome> =>
+  new Promise(resolve => {
+    const finish = (outcome: WorkerOutcome) => {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(outcome);
+    };
+    const onMessage = (e: MessageEvent<WorkerResponse>) => {
+      if (e.data.jobId === jobId) finish(e.data);
+    };
+    const onError = (e: ErrorEvent) => {
+      e.preventDefault();
+      finish({ type: 'crashed' });
+    };
+    const onAbort = () => finish({ type: 'cancelled' });
+
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+    const request: WorkerRequest = { type: 'grade', jobId, sources };
+    worker.postMessage(request);
+  });
+
+// คืนผลการอ่านตามลำดับงาน (null = ตรวจไม่สำเร็จหรือถูกยกเลิก)
+export const gradeBatch = async (jobs: BatchJob[], master: MasterConfig, options: BatchOptions = {}): Promise<(SubmissionRead | null)[]> => {
+  const { signal, onUpdate } = options;
+  const concurrency = Math.min(options.concurrency ?? defaultConcurrency(), jobs.length);
+  const results: (SubmissionRead | null)[] = jobs.map(() => null);
+  const update = (index: number, patch: Omit<BatchItem, 'name'>) => onUpdate?.(index, { name: jobs[index].name, ...patch });
+  let next = 0;
+
+  const lane = async () => {
+    let worker = createWorker(master);
+    try {
+      while (!signal?.aborted && next < jobs.length) {
+        const index = next++;
+        update(index, { status: 'processing' });
+        try {
+          let outcome: WorkerOutcome = { type: 'crashed' };
+          if (worker) outcome = await runInWorker(worker, index, jobs[index].sources, signal);
+          if (outcome.type === 'crashed') {
+            // Worker ใช้งานไม่ได้ (เช่น เบราว์เซอร์ไม่รองรับ module worker) ตรวจบนหน้าเว็บแทน
+            worker?.terminate();
+            worker = null;
+            outcome = { type: 'done', jobId: index, read: await readSubmission(jobs[index].sources, master) };
+          }
+          if (outcome.type === 'done') {
+            results[index] = outcome.read;
+            update(index, { status: 'done' });
+          } else if (outcome.type === 'failed') {
+            update(index, { status: 'failed', error: outcome.message });
+          } else {
+            update(index, { status: 'cancelled' });
+          }
+        } catch (err: any) {
+          update(index, { status: 'failed', error: err.message });
+        }
+      }
+    } finally {
+      worker?.terminate();
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, lane));
+  for (let index = next; index < jobs.length; index++) update(index, { status: 'cancelled' });
+  return results;
+};
@@ -0,0 +1,151 @@
+import { ExamRecord, GradingResult, GradingSession, RosterEntry } from "../types.ts";
+import { totalPoints } from "./answerKey.ts";
+import { downloadBlob, safeFileName } from "./exporter.ts";
+import { regradeResult } from "./grader.ts";
+import { createId, getExam, saveExam, saveSession } from "./storage.ts";
+import { versionMaster } from "./versions.ts";
+
+// แพ็กเกจข้อสอบ: ไฟล์ JSON ไฟล์เดียวที่รวมข้อมูลวิชา ตำแหน่งช่อง เฉลย ภาพต้นแบบ และผลการตรวจ (ถ้ามี)
+// ใช้ส่งต่อให้ครูที่สอนห้องคู่ขนาน และรวมผลจากหลายห้องกลับมาเป็นรายงานเดียว
+
+const PACKAGE_FORMAT = 'smart-grader-exam';
+export const PACKAGE_SCHEMA_VERSION = 1;
+
+export interface ExamPackage {
+  format: typeof PACKAGE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  exam: ExamRecord; // id เดิมของข้อสอบ ใช้จับคู่เมื่อนำเข้าผลกลับมารวมกัน
+  results?: GradingResult[];
+}
+
+// แปลงแพ็กเกจรุ่นเก่าทีละขั้น: MIGRATIONS[n] แปลงจากรุ่น n เป็นรุ่น n + 1
+// เพิ่มรายการที่นี่ทุกครั้งที่เปลี่ยนรูปแบบ และเพิ่ม PACKAGE_SCHEMA_VERSION
+const MIGRATIONS: Record<number, (pkg: any) => any> = {};
+
+export const buildExamPackage = (exam: ExamRecord, results?: GradingResult[]): ExamPackage => ({
+  format: PACKAGE_FORMAT,
+  schemaVersion: PACKAGE_SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  exam,
+  ...(results && results.length > 0 ? { results } : {})
+});
+
+export const exportExamPackage = (exam: ExamRecord, results?: GradingResult[]) => {
+  const suffix = results && results.length > 0 ? `_ผลตรวจ${results.length}แผ่น` : '';
+  downloadBlob(
+    new Blob([JSON.stringify(buildExamPackage(exam, results))], { type: 'application/json' }),
+    `${safeFileName(exam.subject.name)}${suffix}.exam.json`
+  );
+};
+
+const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// ตรวจเฉพาะส่วนที่แอปต้องใช้จริง ฟิลด์เสริมที่ขาดไปถือว่าใช้ค่าเริ่มต้น
+const validatePackage = (pkg: any): string[] => {
+  const issues: string[] = [];
+  const exam = pkg.exam;
+  if (!isObject(exam) || typeof exam.id !== 'string') return ["ไม่พบข้อมูลข้อสอบในไฟล์"];
+  if (!isObject(exam.subject) || typeof exam.subject.name !== 'string' || !isNumber(exam.subject.questionCount)) {
+    issues.push("ข้อมูลวิชาไม่ครบ (ชื่อวิชาหรือจำนวนข้อ)");
+  }
+  const master = exam.masterConfig;
+  if (!isObject(master)) return [...issues, "ไม่พบข้อมูลต้นแบบและเฉลย"];
+  if (typeof master.imageUrl !== 'string' || !master.imageUrl.startsWith('data:')) issues.push("ไม่พบภาพต้นแบบ");
+  if (!Array.isArray(master.boxes) || master.boxes.some((b: any) => !isObject(b) || ![b.x, b.y, b.w, b.h, b.questionNumber].every(isNumber))) {
+    issues.push("ตำแหน่งช่องคำตอบไม่ถูกต้อง");
+  }
+  if (!isObject(master.correctAnswers)) issues.push("ไม่พบเฉลย");
+  if (exam.roster !== undefined && !Array.isArray(exam.roster)) issues.push("รายชื่อนักเรียนไม่ถูกต้อง");
+  if (pkg.results !== undefined) {
+    if (!Array.isArray(pkg.results)) issues.push("ผลการตรวจไม่ถูกต้อง");
+    else if (pkg.results.some((r: any) => !isObject(r) || typeof r.studentId !== 'string' || !Array.isArray(r.details))) {
+      issues.push("ผลการตรวจบางรายการไม่ครบ");
+    }
+  }
+  return issues;
+};
+
+export const parseExamPackage = (text: string): ExamPackage => {
+  let pkg: any;
+  try {
+    pkg = JSON.parse(text);
+  } catch {
+    throw new Error("ไฟล์ไม่ใช่ JSON ที่ถูกต้อง");
+  }
+  if (!isObject(pkg) || pkg.format !== PACKAGE_FORMAT) throw new Error("ไฟล์นี้ไม่ใช่แพ็กเกจข้อสอบ");
+  if (!Number.isInteger(pkg.schemaVersion) || pkg.schemaVersion < 1) throw new Error("ไม่ทราบรุ่นของแพ็กเกจข้อสอบ");
+  if (pkg.schemaVersion > PACKAGE_SCHEMA_VERSION) {
+    throw new Error("แพ็กเกจนี้สร้างจากโปรแกรมรุ่นใหม่กว่า กรุณาอัปเดตโปรแกรมก่อนนำเข้า");
+  }
+  for (let v = pkg.schemaVersion; v < PACKAGE_SCHEMA_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`ไม่รองรับแพ็กเกจรุ่น ${pkg.schemaVersion}`);
+    pkg = { ...migrate(pkg), schemaVersion: v + 1 };
+  }
+  const issues = validatePackage(pkg);
+  if (issues.length > 0) throw new Error(`แพ็กเกจข้อสอบไม่สมบูรณ์: ${issues.join(', ')}`);
+  return pkg as ExamPackage;
+};
+
+// ผลเดียวกันที่ถูกนำเข้าซ้ำ (เช่น ไฟล์เดิมสองครั้ง) นับเพียงครั้งเดียว
+const resultKey = (r: GradingResult) => `${r.timestamp}|${r.studentId}|${r.studentName}|${r.sourceFileName ?? ''}`;
+
+export const mergeResults = (lists: GradingResult[][]): GradingResult[] => {
+  const merged = new Map<string, GradingResult>();
+  lists.flat().forEach(r => merged.set(resultKey(r), r));
+  return Array.from(merged.values()).sort((a, b) => a.studentId.localeCompare(b.studentId, undefined, { numeric: true }));
+};
+
+const mergeRoster = (current: RosterEntry[] = [], incoming: RosterEntry[] = []): RosterEntry[] => {
+  const ids = new Set(current.map(e => e.id));
+  return [...current, ...incoming.filter(e => !ids.has(e.id))];
+};
+
+export interface ImportSummary {
+  exam: ExamRecord;
+  session: GradingSession | null; // รอบการตรวจที่สร้างจากผลในแพ็กเกจ
+  mergedIntoExisting: boolean;
+}
+
+// นำเข้าแพ็กเกจ ถ้ามีข้อสอบเดียวกันอยู่แล้วจะใช้ต้นแบบและเฉลยในเครื่อง แล้วเพิ่มผลเป็นรอบการตรวจใหม่
+// ผลที่นำเข้าจะคิดคะแนนใหม่ตามเฉลยในเครื่อง เพื่อให้รวมรายงานกับห้องอื่นได้ตรงกัน
+export const importExamPackage = async (pkg: ExamPackage): Promise<ImportSummary> => {
+  const existing = await getExam(pkg.exam.id);
+  const now = Date.now();
+  const exam: ExamRecord = existing
+    ? { ...existing, roster: mergeRoster(existing.roster, pkg.exam.roster), updatedAt: now }
+    : { ...pkg.exam, createdAt: pkg.exam.createdAt ?? now, updatedAt: now };
+  await saveExam(exam);
+
+  const results = (pkg.results ?? []).map(r =>
+    regradeResult(r, exam.masterConfig, totalPoints(versionMaster(exam.masterConfig, r.versionLabel), exam.subject.questionCount))
+  );
+  if (results.length === 0) return { exam, session: null, mergedIntoExisting: !!existing };
+
+  const session: GradingSession = {
+    id: createId(),
+    examId: exam.id,
+    results: mergeResults([results]),
+    createdAt: Math.min(...results.map(r => r.timestamp)),
+    updatedAt: now
+  };
+  await saveSession(session);
+  return { exam, session, mergedIntoExisting: !!existing };
+};
+
+// รวมผลการตรวจหลายรอบ (เช่น จากครูหลายห้อง) เป็นรอบใหม่รอบเดียวสำหรับรายงานรวม รอบเดิมยังอยู่ครบ
+export const mergeSessions = async (examId: string, sessions: GradingSession[]): Promise<GradingSession> => {
+  const results = mergeResults(sessions.map(s => s.results));
+  if (results.length === 0) throw new Error("ไม่มีผลการตรวจให้รวม");
+  const session: GradingSession = {
+    id: createId(),
+    examId,
+    results,
+    createdAt: Math.min(...results.map(r => r.timestamp)),
+    updatedAt: Date.now()
+  };
+  await saveSession(session);
+  return session;
+};
@@ -0,0 +1,166 @@
+import { GradingResult, MasterConfig, RosterEntry, SubjectInfo } from "../types.ts";
+import { findAbsentees } from "./roster.ts";
+import { keyedQuestions, keyLabel, POLICY_LABELS, resolveKey } from "./answerKey.ts";
+import { analyzeItems, ITEM_FLAG_LABELS } from "./itemAnalysis.ts";
+import { canonicalizeResult, canonicalQuestion, versionLabels, versionMaster } from "./versions.ts";
+import { buildXlsx, CellValue } from "./xlsx.ts";
+import { gradeScaleOf, percentOf, resultGrade } from "./gradeScale.ts";
+
+// สร้างตารางผลคะแนนสำหรับส่งออกเป็น CSV / Excel
+
+const questionNumbersOf = (results: GradingResult[], master: MasterConfig | null): number[] => {
+  const nums = new Set<number>();
+  if (master) Object.keys(master.correctAnswers).forEach(q => nums.add(parseInt(q)));
+  results.forEach(r => r.details.forEach(d => nums.add(d.question)));
+  return Array.from(nums).filter(n => !isNaN(n)).sort((a, b) => a - b);
+};
+
+export const buildResultRows = (graded: GradingResult[], master: MasterConfig | null, roster: RosterEntry[] = []): CellValue[][] => {
+  // ข้อสอบหลายชุด: เรียงคอลัมน์ตามเลขข้อของชุดหลัก
+  const results = master ? graded.map(r => canonicalizeResult(r, master)) : graded;
+  const withVersions = (master?.versions ?? []).length > 0;
+  const questions = questionNumbersOf(results, master);
+  const withRoster = roster.length > 0;
+  const rosterById = new Map(roster.map(e => [e.id, e]));
+  const writtenRegions = master?.writtenRegions ?? [];
+  const scale = gradeScaleOf(master);
+  const header: CellValue[] = [
+    'เลขที่',
+    ...(withRoster ? ['เลขประจำตัว', 'ชั้น/ห้อง'] : []),
+    'ชื่อ-นามสกุล',
+    ...(withVersions ? ['ชุด'] : []),
+    'คะแนน', 'คะแนนเต็ม', 'ร้อยละ', 'เกรด',
+    ...writtenRegions.map(r => r.label),
+    ...questions.map(q => `ข้อ ${q}`)
+  ];
+
+  const rows = results.map(res => {
+    const byQuestion = new Map(res.details.map(d => [d.question, d]));
+    const entry = res.rosterId ? rosterById.get(res.rosterId) : undefined;
+    return [
+      res.studentId,
+      ...(withRoster ? [entry?.studentCode ?? '', entry?.classroom ?? ''] : []),
+      res.studentName,
+      ...(withVersions ? [res.versionLabel ?? ''] : []),
+      res.score,
+      res.total,
+      percentOf(res.score, res.total),
+      resultGrade(res, scale),
+      // ข้อเขียนที่ครูยังไม่ยืนยันเว้นว่างไว้
+      ...writtenRegions.map(r => res.written?.find(w => w.regionId === r.id)?.score ?? ''),
+      ...questions.map(q => {
+        const d = byQuestion.get(q);
+        if (!d) return '';
+        return `${d.studentAnswer || '-'} ${d.isCorrect ? '✓' : '✗'}`;
+      })
+    ];
+  });
+
+  const absentRows = findAbsentees(roster, results).map(e => [
+    e.number, e.studentCode, e.classroom, e.name, ...(withVersions ? [''] : []), 'ขาดสอบ'
+  ]);
+
+  return [header, ...rows, ...absentRows];
+};
+
+export const buildAnswerKeyRows = (master: MasterConfig | null): CellValue[][] => {
+  const versions = master?.versions ?? [];
+  if (!master || versions.length === 0) {
+    const header: CellValue[] = ['ข้อที่', 'คำตอบเฉลย', 'คะแนน', 'การให้คะแนน'];
+    if (!master) return [header];
+    const rows = keyedQuestions(master).map(q => {
+      const key = resolveKey(master, q);
+      return [q, keyLabel(key), key.points, POLICY_LABELS[key.policy]];
+    });
+    return [header, ...rows];
+  }
+
+  const header: CellValue[] = ['ชุด', 'ข้อที่', 'ข้อในชุดหลัก', 'คำตอบเฉลย', 'คะแนน', 'การให้คะแนน'];
+  const rows = versionLabels(master).flatMap(label => {
+    const key = versionMaster(master, label);
+    return keyedQuestions(key).map(q => {
+      const resolved = resolveKey(key, q);
+      return [label, q, canonicalQuestion(master, label, q), keyLabel(resolved), resolved.points, POLICY_LABELS[resolved.policy]];
+    });
+  });
+  return [header, ...rows];
+};
+
+const round = (v: number, digits = 2) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+export const buildItemAnalysisRows = (results: GradingResult[], master: MasterConfig): CellValue[][] => {
+  const { items, test } = analyzeItems(results, master);
+  const summary: CellValue[][] = [
+    ['จำนวนผู้สอบ', test.count],
+    ['จำนวนข้อที่นำมาวิเคราะห์', test.itemCount],
+    ['คะแนนเต็ม', test.total],
+    ['ค่าเฉลี่ย', round(test.mean)],
+    ['ส่วนเบี่ยงเบนมาตรฐาน', round(test.sd)],
+    ['มัธยฐาน', round(test.median)],
+    ['ต่ำสุด', test.min],
+    ['สูงสุด', test.max],
+    ['ความเชื่อมั่น KR-20', round(test.kr20, 3)]
+  ];
+  const optionLabels = Array.from(new Set(items.flatMap(i => i.options.map(o => o.label))));
+  const header: CellValue[] = [
+    'ข้อที่', 'เฉลย', 'ความยาก (p)', 'อำนาจจำแนก (r)', 'พอยท์ไบซีเรียล',
+    ...optionLabels.map(l => `เลือก ${l || 'ไม่ตอบ'} (สูง/ต่ำ)`),
+    'ข้อสังเกต'
+  ];
+  const rows = items.map(item => [
+    item.question,
+    item.key.join('/'),
+    round(item.difficulty),
+    round(item.discrimination),
+    round(item.pointBiserial),
+    ...optionLabels.map(l => {
+      const o = item.options.find(opt => opt.label === l);
+      return o ? `${o.count} (${o.upper}/${o.lower})` : '';
+    }),
+    item.flags.map(f => ITEM_FLAG_LABELS[f]).join(', ')
+  ]);
+  const histogram = test.histogram.map(b => [`${b.from}-${b.to}`, b.count]);
+  return [header, ...rows, [], ...summary, [], ['ช่วงคะแนน', 'จำนวน (คน)'], ...histogram];
+};
+
+const csvCell = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// ใส่ BOM นำหน้าเพื่อให้ Excel อ่านภาษาไทยเป็น UTF-8
+export const toCsv = (rows: CellValue[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const safeFileName = (name: string): string =>
+  (name.trim() || 'ผลการตรวจ').replace(/[\\\/:*?"<>|]/g, '_');
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportResultsCsv = (subject: SubjectInfo, master: MasterConfig | null, results: GradingResult[], roster: RosterEntry[] = []) => {
+  const base = safeFileName(subject.name);
+  downloadBlob(new Blob([toCsv(buildResultRows(results, master, roster))], { type: 'text/csv;charset=utf-8' }), `${base}_ผลคะแนน.csv`);
+  downloadBlob(new Blob([toCsv(buildAnswerKeyRows(master))], { type: 'text/csv;charset=utf-8' }), `${base}_เฉลย.csv`);
+};
+
+export const exportResultsXlsx = (subject: SubjectInfo, master: MasterConfig | null, results: GradingResult[], roster: RosterEntry[] = []) => {
+  const data = buildXlsx([
+    { name: 'ผลคะแนน', rows: buildResultRows(results, master, roster) },
+    { name: 'เฉลย', rows: buildAnswerKeyRows(master) },
+    ...(master && results.length > 0 ? [{ name: 'วิเคราะห์ข้อสอบ', rows: buildItemAnalysisRows(results, master) }] : [])
+  ]);
+  downloadBlob(
+    new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${safeFileName(subject.name)}.xlsx`
+  );
+};
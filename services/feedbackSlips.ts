@@ -0,0 +1,85 @@
+import { GradingResult, MasterConfig, RosterEntry, SubjectInfo } from "../types.ts";
+import { gradeScaleOf, percentOf, resultGrade } from "./gradeScale.ts";
+import { escapeXml } from "./sheetTemplates.ts";
+
+// ใบแจ้งผลรายบุคคลสำหรับคืนนักเรียน พิมพ์หรือบันทึกเป็น PDF จากหน้าต่างพิมพ์ของเบราว์เซอร์
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const slipHtml = (
+  subject: SubjectInfo,
+  master: MasterConfig,
+  result: GradingResult,
+  entry: RosterEntry | undefined,
+  classAverage: number
+): string => {
+  const grade = resultGrade(result, gradeScaleOf(master));
+  const percent = percentOf(result.score, result.total);
+  const averagePercent = percentOf(classAverage, result.total);
+  const diff = round2(result.score - classAverage);
+  const wrong = result.details.filter(d => !d.isCorrect && d.maxPoints !== 0);
+  const written = (master.writtenRegions ?? []).map(region => {
+    const score = result.written?.find(w => w.regionId === region.id)?.score;
+    return `<tr><td>${escapeXml(region.label)}</td><td>${score ?? 'รอตรวจ'}</td><td>${region.maxScore}</td></tr>`;
+  });
+
+  return `<section class="slip">
+  <header>
+    <div><h2>${escapeXml(subject.name)}</h2><p>${result.versionLabel ? `ชุด ${escapeXml(result.versionLabel)}` : ''}</p></div>
+    <div class="grade"><span>เกรด</span><strong>${escapeXml(grade)}</strong></div>
+  </header>
+  <p class="student">
+    เลขที่ ${escapeXml(result.studentId)} &nbsp; ${escapeXml(result.studentName)}
+    ${entry ? `&nbsp; เลขประจำตัว ${escapeXml(entry.studentCode)} &nbsp; ชั้น ${escapeXml(entry.classroom)}` : ''}
+  </p>
+  <table class="summary">
+    <tr><th>คะแนนที่ได้</th><th>ร้อยละ</th><th>ค่าเฉลี่ยของห้อง</th><th>เทียบกับค่าเฉลี่ย</th></tr>
+    <tr>
+      <td><strong>${result.score}</strong> / ${result.total}</td>
+      <td>${percent}</td>
+      <td>${round2(classAverage)} (ร้อยละ ${averagePercent})</td>
+      <td>${diff > 0 ? `สูงกว่า ${diff}` : diff < 0 ? `ต่ำกว่า ${-diff}` : 'เท่ากับค่าเฉลี่ย'}</td>
+    </tr>
+  </table>
+  ${written.length > 0 ? `<h3>ข้อเขียน</h3><table><tr><th>ข้อ</th><th>คะแนน</th><th>เต็ม</th></tr>${written.join('')}</table>` : ''}
+  <h3>ข้อที่ตอบผิด ${wrong.length} ข้อ</h3>
+  ${wrong.length > 0
+    ? `<table class="wrong"><tr><th>ข้อ</th><th>คำตอบของนักเรียน</th><th>เฉลย</th></tr>${wrong
+        .map(d => `<tr><td>${d.question}</td><td>${escapeXml(d.studentAnswer || 'ไม่ได้ตอบ')}</td><td>${escapeXml(d.correctAnswer)}</td></tr>`)
+        .join('')}</table>`
+    : '<p>ตอบถูกทุกข้อ</p>'}
+</section>`;
+};
+
+export const printFeedbackSlips = (subject: SubjectInfo, master: MasterConfig, results: GradingResult[], roster: RosterEntry[] = []) => {
+  if (results.length === 0) throw new Error("ยังไม่มีผลการตรวจสำหรับพิมพ์ใบแจ้งผล");
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("เบราว์เซอร์บล็อกหน้าต่างพิมพ์ กรุณาอนุญาตป๊อปอัป");
+  const classAverage = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+  const rosterById = new Map(roster.map(e => [e.id, e]));
+  const slips = results.map(r => slipHtml(subject, master, r, r.rosterId ? rosterById.get(r.rosterId) : undefined, classAverage));
+
+  win.document.write(`<!DOCTYPE html><html lang="th"><head><meta charset="UTF-8"><title>ใบแจ้งผล ${escapeXml(subject.name)}</title>
+<link href="https://fonts.googleapis.com/css2?family=Kanit:wght@300;400;500&display=swap" rel="stylesheet">
+<style>
+@page { size: A4; margin: 10mm; }
+body { font-family: 'Kanit', sans-serif; font-size: 11pt; color: #1e293b; margin: 0; }
+.slip { border: 1px dashed #94a3b8; padding: 6mm; margin-bottom: 6mm; break-inside: avoid; page-break-inside: avoid; }
+header { display: flex; justify-content: space-between; align-items: flex-start; }
+h2 { margin: 0; font-size: 14pt; }
+h3 { margin: 4mm 0 2mm; font-size: 11pt; }
+p { margin: 1mm 0; }
+.grade { text-align: center; border: 2px solid #1d4ed8; border-radius: 3mm; padding: 1mm 5mm; }
+.grade span { display: block; font-size: 9pt; color: #64748b; }
+.grade strong { font-size: 20pt; color: #1d4ed8; }
+table { border-collapse: collapse; width: 100%; font-size: 10pt; }
+th, td { border: 1px solid #cbd5e1; padding: 1mm 2mm; text-align: center; }
+th { background: #f1f5f9; font-weight: 500; }
+.wrong td:nth-child(3) { color: #15803d; font-weight: 500; }
+</style>
+</head><body>${slips.join('\n')}</body></html>`);
+  win.document.close();
+  win.focus();
+  // รอโหลดฟอนต์ภาษาไทยก่อนเปิดหน้าต่างพิมพ์
+  win.onload = () => win.print();
+};
@@ -0,0 +1,39 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { extractJson, JsonSchema, modelOf, splitDataUrl, VisionProvider } from "./visionProvider.ts";
+
+// Google Gemini ผ่าน @google/genai
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)]))
+    : undefined,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined
+});
+
+export const geminiProvider: VisionProvider = {
+  generateJson: async (request, settings) => {
+    if (!settings.apiKey.trim()) throw new Error("กรุณากรอก API Key ในช่องตั้งค่าก่อนเริ่มการประมวลผล");
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey.trim() });
+    const parts = request.parts.map(part =>
+      'text' in part ? { text: part.text } : { inlineData: splitDataUrl(part.imageUrl) }
+    );
+
+    const response = await ai.models.generateContent({
+      model: modelOf(settings),
+      contents: { parts },
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+        ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {})
+      }
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("AI ไม่ตอบสนอง");
+    return JSON.parse(extractJson(text));
+  }
+};
@@ -0,0 +1,61 @@
+import { GradeBand, GradeScale, GradingResult, MasterConfig } from "../types.ts";
+
+// แปลงคะแนนเป็นเกรดตามเกณฑ์ที่ครูกำหนด
+
+export const THAI_GRADE_SCALE: GradeScale = {
+  name: 'เกรด 8 ระดับ (0-4)',
+  bands: [
+    { minPercent: 80, grade: '4' },
+    { minPercent: 75, grade: '3.5' },
+    { minPercent: 70, grade: '3' },
+    { minPercent: 65, grade: '2.5' },
+    { minPercent: 60, grade: '2' },
+    { minPercent: 55, grade: '1.5' },
+    { minPercent: 50, grade: '1' },
+    { minPercent: 0, grade: '0' }
+  ]
+};
+
+export const passFailScale = (passPercent: number): GradeScale => ({
+  name: `ผ่าน/ไม่ผ่าน (ร้อยละ ${passPercent})`,
+  bands: [
+    { minPercent: passPercent, grade: 'ผ่าน' },
+    { minPercent: 0, grade: 'ไม่ผ่าน' }
+  ]
+});
+
+export const GRADE_SCALE_PRESETS: GradeScale[] = [THAI_GRADE_SCALE, passFailScale(50), passFailScale(60)];
+
+export const gradeScaleOf = (master: MasterConfig | null): GradeScale => master?.gradeScale ?? THAI_GRADE_SCALE;
+
+export const percentOf = (score: number, total: number): number =>
+  total > 0 ? Math.round((score / total) * 10000) / 100 : 0;
+
+const sortedBands = (scale: GradeScale): GradeBand[] => [...scale.bands].sort((a, b) => b.minPercent - a.minPercent);
+
+// คะแนนต่ำกว่าทุกช่วง (เกณฑ์ไม่ได้เริ่มที่ 0) ได้เกรดของช่วงต่ำสุด
+// เทียบกับร้อยละที่ยังไม่ปัดเศษ เช่น 79.996% ยังไม่ถึงเกณฑ์ 80
+export const gradeOf = (score: number, total: number, scale: GradeScale): string => {
+  const bands = sortedBands(scale);
+  if (bands.length === 0) return '';
+  const percent = total > 0 ? (score * 100) / total : 0;
+  return (bands.find(b => percent >= b.minPercent) ?? bands[bands.length - 1]).grade;
+};
+
+export const resultGrade = (result: GradingResult, scale: GradeScale): string => gradeOf(result.score, result.total, scale);
+
+// จำนวนนักเรียนในแต่ละเกรด เรียงจากเกรดสูงไปต่ำ
+export const gradeDistribution = (results: GradingResult[], scale: GradeScale): { grade: string; count: number }[] =>
+  sortedBands(scale).map(b => ({ grade: b.grade, count: results.filter(r => resultGrade(r, scale) === b.grade).length }));
+
+// ตรวจเกณฑ์ก่อนบันทึก คืนรายการปัญหาภาษาไทย
+export const validateGradeScale = (scale: GradeScale): string[] => {
+  const issues: string[] = [];
+  if (scale.bands.length === 0) issues.push("ต้องมีอย่างน้อย 1 ระดับ");
+  if (scale.bands.some(b => !b.grade.trim())) issues.push("มีระดับที่ยังไม่ได้ตั้งชื่อเกรด");
+  if (scale.bands.some(b => b.minPercent < 0 || b.minPercent > 100)) issues.push("ร้อยละขั้นต่ำต้องอยู่ระหว่าง 0-100");
+  const cutoffs = scale.bands.map(b => b.minPercent);
+  if (new Set(cutoffs).size !== cutoffs.length) issues.push("มีร้อยละขั้นต่ำซ้ำกัน");
+  if (scale.bands.length > 0 && !cutoffs.includes(0)) issues.push("ควรมีระดับที่เริ่มที่ร้อยละ 0 สำหรับคะแนนต่ำสุด");
+  return issues;
+};
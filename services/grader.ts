@@ -0,0 +1,184 @@
+import { GradingDetail, GradingResult, IdGridBox, MasterConfig, StudentIdRead, VersionBox, WrittenScore } from "../types.ts";
+import { calibrateSheet, QuestionRead, readQuestion, SheetCalibration } from "./markDetection.ts";
+import { keyedQuestions, keyLabel, resolveKey, scoreAnswer } from "./answerKey.ts";
+import { versionMaster } from "./versions.ts";
+import { onPage } from "./pages.ts";
+import { Canvas2D } from "./imageUtils.ts";
+
+// ข้อที่ความมั่นใจต่ำกว่านี้ถือว่าอ่านได้ไม่ชัด ควรให้ครูตรวจซ้ำ
+export const LOW_CONFIDENCE = 0.6;
+
+export interface SheetGrade {
+  details: GradingDetail[];
+  idRead?: StudentIdRead;
+  versionLabel?: string;
+  versionNeedsReview?: boolean;
+}
+
+// อ่านรหัสชุดข้อสอบจากช่องระบาย
+export const readVersion = (
+  ctx: Canvas2D,
+  cw: number,
+  ch: number,
+  versionBoxes: VersionBox[],
+  calibration: SheetCalibration
+): { label: string; confidence: number } => {
+  const choices = versionBoxes.map(b => ({ ...b, optionLabel: b.label }));
+  const read = readQuestion(ctx, choices, cw, ch, calibration, 'bubble');
+  return { label: read.answer, confidence: read.answer ? read.confidence : 0 };
+};
+
+// อ่านเลขประจำตัวจากช่องระบาย ด้วยตรรกะเดียวกับการอ่านคำตอบแบบช่องระบายทึบ (เทียบ 10 ช่องในหลักเดียวกัน)
+export const readStudentId = (
+  ctx: Canvas2D,
+  cw: number,
+  ch: number,
+  idGrid: IdGridBox[],
+  calibration: SheetCalibration
+): StudentIdRead => {
+  const columns = Array.from(new Set(idGrid.map(b => b.column))).sort((a, b) => a - b);
+  const flaggedColumns: number[] = [];
+  let confidence = 1;
+
+  const digits = columns.map(column => {
+    const choices = idGrid
+      .filter(b => b.column === column)
+      .map(b => ({ ...b, optionLabel: String(b.digit) }));
+    const read = readQuestion(ctx, choices, cw, ch, calibration, 'bubble');
+    confidence = Math.min(confidence, read.confidence);
+    if (!read.answer || read.confidence < LOW_CONFIDENCE) flaggedColumns.push(column);
+    return read.answer || '?';
+  });
+
+  return {
+    value: digits.join(''),
+    confidence: columns.length > 0 ? confidence : 0,
+    needsReview: flaggedColumns.length > 0,
+    flaggedColumns
+  };
+};
+
+// ค่าที่อ่านได้จากกระดาษหนึ่งหน้า (ยังไม่ให้คะแนน)
+export interface PageRead {
+  questions: Record<number, QuestionRead>;
+  idRead?: StudentIdRead;
+  version?: { label: string; confidence: number };
+}
+
+// อ่านรอยมาร์คของช่องที่อยู่ในหน้านี้ จากภาพที่จัดแนวให้ตรงกับต้นแบบหน้าเดียวกันแล้ว
+export const readAlignedPage = (
+  ctx: Canvas2D,
+  cw: number,
+  ch: number,
+  master: MasterConfig,
+  page = 1
+): PageRead => {
+  const boxes = onPage(master.boxes, page);
+  const idGrid = onPage(master.idGrid ?? [], page);
+  const versionBoxes = onPage(master.versionBoxes ?? [], page);
+  const calibration = calibrateSheet(ctx, [...boxes, ...idGrid, ...versionBoxes], cw, ch);
+
+  const questions: Record<number, QuestionRead> = {};
+  Array.from(new Set(boxes.map(b => b.questionNumber))).forEach(num => {
+    questions[num] = readQuestion(ctx, boxes.filter(b => b.questionNumber === num), cw, ch, calibration);
+  });
+
+  return {
+    questions,
+    idRead: idGrid.length > 0 ? readStudentId(ctx, cw, ch, idGrid, calibration) : undefined,
+    version: versionBoxes.length > 0 ? readVersion(ctx, cw, ch, versionBoxes, calibration) : undefined
+  };
+};
+
+// รวมค่าที่อ่านได้จากทุกหน้าของนักเรียนคนหนึ่งแล้วให้คะแนน
+export const gradePages = (
+  master: MasterConfig,
+  pages: PageRead[],
+  versionLabel?: string // ไม่ระบุ = อ่านจากช่องระบายชุดข้อสอบ (ถ้ามี)
+): SheetGrade => {
+  const questions: Record<number, QuestionRead> = Object.assign({}, ...pages.map(p => p.questions));
+  const idRead = pages.find(p => p.idRead)?.idRead;
+  const versionRead = pages.find(p => p.version)?.version;
+
+  let versionNeedsReview = false;
+  if (!versionLabel && versionRead && (master.versions ?? []).length > 0) {
+    versionLabel = versionRead.label || undefined;
+    versionNeedsReview = !versionRead.label || versionRead.confidence < LOW_CONFIDENCE;
+  }
+  const key = versionMaster(master, versionLabel);
+
+  const details = keyedQuestions(key).map(num => {
+    const read = questions[num];
+    const resolved = resolveKey(key, num);
+    const answer = read?.answer ?? '';
+    return {
+      question: num,
+      studentAnswer: answer,
+      correctAnswer: keyLabel(resolved),
+      ...scoreAnswer(resolved, answer),
+      isWarning: read?.isWarning ?? false,
+      confidence: read?.confidence ?? 0,
+      densities: read?.densities,
+      markedLabels: read?.markedLabels,
+      markStates: read?.markStates
+    };
+  });
+
+  return { details, idRead, versionLabel, versionNeedsReview };
+};
+
+// ตรวจกระดาษคำตอบหน้าเดียวที่จัดแนวให้ตรงกับต้นแบบแล้ว (วาดอยู่บน ctx ขนาด cw x ch)
+export const gradeAlignedSheet = (
+  ctx: Canvas2D,
+  cw: number,
+  ch: number,
+  master: MasterConfig,
+  versionLabel?: string
+): SheetGrade => gradePages(master, [readAlignedPage(ctx, cw, ch, master)], versionLabel);
+
+export const countLowConfidence = (details: GradingDetail[]): number =>
+  details.filter(d => d.confidence < LOW_CONFIDENCE && !d.override).length;
+
+// ผลการตรวจรุ่นเก่าไม่มี points จึงนับข้อถูกเป็น 1 คะแนน
+export const scoreDetails = (details: GradingDetail[]): number =>
+  details.reduce((sum, d) => sum + (d.points ?? (d.isCorrect ? 1 : 0)), 0);
+
+// ข้อเขียนนับเฉพาะคะแนนที่ครูยืนยันแล้ว
+export const scoreWritten = (written: WrittenScore[] = []): number =>
+  written.reduce((sum, w) => sum + (w.score ?? 0), 0);
+
+// คะแนนรวมของแผ่น = ปรนัย + ข้อเขียน
+export const scoreResult = (details: GradingDetail[], written?: WrittenScore[]): number =>
+  scoreDetails(details) + scoreWritten(written);
+
+// คิดคะแนนใหม่ทั้งแผ่นตามเฉลยปัจจุบัน (ใช้เมื่อครูแก้เฉลยหลังตรวจไปแล้ว)
+export const regradeResult = (result: GradingResult, master: MasterConfig, total: number): GradingResult => {
+  const key = versionMaster(master, result.versionLabel);
+  const existing = new Map(result.details.map(d => [d.question, d]));
+  const details = keyedQuestions(key).map(num => {
+    const resolved = resolveKey(key, num);
+    const d = existing.get(num) ?? { question: num, studentAnswer: '', isWarning: false, confidence: 0 };
+    return { ...d, correctAnswer: keyLabel(resolved), ...scoreAnswer(resolved, d.studentAnswer) };
+  });
+  // ตัดคะแนนของข้อเขียนที่ถูกลบออกจากต้นแบบแล้ว
+  const regionIds = new Set((master.writtenRegions ?? []).map(r => r.id));
+  const written = result.written?.filter(w => regionIds.has(w.regionId));
+  return { ...result, details, written, score: scoreResult(details, written), total };
+};
+
+// แก้คำตอบของข้อหนึ่งโดยครู แล้วคำนวณคะแนนใหม่ (เก็บคำตอบเดิมที่เครื่องอ่านไว้)
+export const overrideAnswer = (result: GradingResult, master: MasterConfig, question: number, answer: string | null): GradingResult => {
+  const details = result.details.map(d => {
+    if (d.question !== question) return d;
+    const originalAnswer = d.override?.originalAnswer ?? d.studentAnswer;
+    // answer เป็น null = คืนค่าที่เครื่องอ่านได้
+    const studentAnswer = answer ?? originalAnswer;
+    return {
+      ...d,
+      studentAnswer,
+      ...scoreAnswer(resolveKey(versionMaster(master, result.versionLabel), question), studentAnswer),
+      override: answer === null ? undefined : { originalAnswer, at: Date.now() }
+    };
+  });
+  return { ...result, details, score: scoreResult(details, result.written) };
+};
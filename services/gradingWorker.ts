@@ -0,0 +1,30 @@
+import { MasterConfig } from "../types.ts";
+import { readSubmission, SheetSource, SubmissionRead } from "./sheetReader.ts";
+
+// Web Worker สำหรับตรวจกระดาษคำตอบเบื้องหลัง รับต้นแบบครั้งเดียวแล้วรับงานทีละชุด
+
+export type WorkerRequest =
+  | { type: 'master'; master: MasterConfig }
+  | { type: 'grade'; jobId: number; sources: SheetSource[] };
+
+export type WorkerResponse =
+  | { type: 'done'; jobId: number; read: SubmissionRead }
+  | { type: 'failed'; jobId: number; message: string };
+
+let master: MasterConfig | null = null;
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  if (request.type === 'master') {
+    master = request.master;
+    return;
+  }
+  let response: WorkerResponse;
+  try {
+    if (!master) throw new Error("ยังไม่ได้ส่งต้นแบบเฉลยให้ Worker");
+    response = { type: 'done', jobId: request.jobId, read: await readSubmission(request.sources, master) };
+  } catch (err: any) {
+    response = { type: 'failed', jobId: request.jobId, message: err?.message ?? String(err) };
+  }
+  self.postMessage(response);
+};
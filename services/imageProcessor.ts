@@ -1,134 +1,355 @@
+import { BoxCoordinate, BoxRegion, IdGridBox, VersionBox, VisionProviderId } from "../types.ts";
+import { DEFAULT_OPTION_COUNT, OPTION_LABELS, TRUE_FALSE_LABELS } from "./answerKey.ts";
+import {
+  isRateLimitError, isVisionConfigured, JsonSchema, loadVisionSettings, QUOTA_MESSAGE, recordResponse,
+  validateSchema, VisionProvider, VisionRequest, withRetry
+} from "./visionProvider.ts";
+import { geminiProvider } from "./geminiProvider.ts";
+import { openAiProvider } from "./openAiProvider.ts";
+import { mockProvider } from "./mockProvider.ts";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { BoxCoordinate } from "../types.ts";
+const PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider
+};
 
-const extractJson = (text: string): string => {
-  const match = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-  if (match) return match[0];
-  return text;
+// เรียกผู้ให้บริการตามการตั้งค่า ลองใหม่เมื่อถูกจำกัดอัตรา แล้วตรวจรูปแบบผลลัพธ์ก่อนส่งต่อ
+const runVisionTask = async (request: VisionRequest): Promise<any> => {
+  const settings = loadVisionSettings();
+  if (!isVisionConfigured(settings)) {
+    throw new Error("กรุณาตั้งค่า AI (API Key หรือที่อยู่เซิร์ฟเวอร์) ก่อนเริ่มการประมวลผล");
+  }
+  let data: unknown;
+  try {
+    data = await withRetry(() => PROVIDERS[settings.provider].generateJson(request, settings));
+  } catch (error: any) {
+    throw isRateLimitError(error) ? new Error(QUOTA_MESSAGE) : error;
+  }
+  const issues = validateSchema(data, request.schema);
+  if (issues.length > 0) {
+    throw new Error(`ข้อมูลจาก AI ไม่ตรงรูปแบบ (${issues.slice(0, 3).join(', ')})`);
+  }
+  if (settings.provider !== 'mock') recordResponse(request.task, data);
+  return data;
+};
+
+const describeError = (prefix: string, error: any): Error =>
+  error.message === QUOTA_MESSAGE ? error : new Error(prefix + error.message);
+
+// ช่องที่มีพิกัดนอกภาพ ขนาดไม่ถูกต้อง เลขข้อเกินจำนวนข้อ หรือตัวเลือกที่ไม่รู้จัก ถือว่า AI อ่านผิด ตัดทิ้ง
+const isValidRegion = (b: any) =>
+  b.x >= 0 && b.y >= 0 && b.w > 0 && b.h > 0 && b.x + b.w <= 100.5 && b.y + b.h <= 100.5;
+
+export interface MasterAnalysisOptions {
+  optionCount?: number;
+  page?: number; // หน้าที่ของภาพนี้ (ข้อสอบหลายหน้า)
+  pageCount?: number;
+}
+
+const REGION_PROPERTIES: Record<string, JsonSchema> = {
+  x: { type: 'number', description: "พิกัด X เริ่มต้น (%)" },
+  y: { type: 'number', description: "พิกัด Y เริ่มต้น (%)" },
+  w: { type: 'number', description: "ความกว้าง (%)" },
+  h: { type: 'number', description: "ความสูง (%)" }
 };
 
 export const analyzeMasterSheet = async (
   base64DataUrl: string, 
-  questionCount: number
-): Promise<{ boxes: BoxCoordinate[], correctAnswers: Record<number, string> }> => {
-  const apiKey = (process.env.API_KEY || (window as any).process?.env?.API_KEY) as string;
-  
-  if (!apiKey || apiKey.trim() === "") {
-    throw new Error("กรุณากรอก API Key ในช่องตั้งค่าก่อนเริ่มการประมวลผล");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: apiKey.trim() });
-  const base64Data = base64DataUrl.replace(/^data:.*;base64,/, '');
+  questionCount: number,
+  options: MasterAnalysisOptions = {}
+): Promise<{ boxes: BoxCoordinate[], correctAnswers: Record<number, string>, idGrid: IdGridBox[], versionBoxes: VersionBox[] }> => {
+  const { optionCount = DEFAULT_OPTION_COUNT, page = 1, pageCount = 1 } = options;
+  const labels = OPTION_LABELS.slice(0, optionCount);
+  const labelList = labels.join(', ');
+  const pageNote = pageCount > 1
+    ? `\n    - ภาพนี้คือหน้าที่ ${page} จาก ${pageCount} หน้า ให้ส่งเฉพาะข้อที่อยู่ในหน้านี้ โดยใช้เลขข้อตามที่พิมพ์บนกระดาษ`
+    : '';
 
   const prompt = `
     คำสั่ง: วิเคราะห์ภาพ "กระดาษคำตอบต้นแบบ (เฉลย)" จำนวน ${questionCount} ข้อ
 
     โครงสร้างกระดาษ:
-    - ข้อสอบเรียงจากบนลงล่างตามลำดับข้อ (1, 2, 3, ...)
-    - ใน 1 ข้อ จะมีช่องตัวเลือก 4 ช่องเรียงกันใน "แนวระนาบเดียวกัน (แนวนอน)" 
-    - ลำดับช่องจากซ้ายไปขวาคือ: ช่องที่ 1 (ก), ช่องที่ 2 (ข), ช่องที่ 3 (ค), และช่องที่ 4 (ง)
+    - ข้อสอบอาจแบ่งเป็นหลายคอลัมน์ (1-4 คอลัมน์) เลขข้อเรียงจากบนลงล่างในคอลัมน์ซ้ายสุดก่อน แล้วต่อที่คอลัมน์ถัดไป
+    - ให้ใช้เลขข้อที่พิมพ์กำกับบนกระดาษเป็นหลัก${pageNote}
+    - ใน 1 ข้อ จะมีช่องตัวเลือก ${optionCount} ช่องเรียงกันใน "แนวระนาบเดียวกัน (แนวนอน)"
+    - ลำดับช่องจากซ้ายไปขวาคือ: ${labelList}
+    - ข้อแบบถูก/ผิด มีเพียง 2 ช่อง ให้ใช้ optionLabel เป็น "${TRUE_FALSE_LABELS[0]}" (ช่องซ้าย) และ "${TRUE_FALSE_LABELS[1]}" (ช่องขวา)
 
     การตรวจจับเฉลย:
-    - ในแต่ละแถว (แต่ละข้อ) ให้เปรียบเทียบทั้ง 4 ช่อง
+    - ในแต่ละแถว (แต่ละข้อ) ให้เปรียบเทียบทุกช่องของข้อนั้น
     - ช่องใดที่มี "รอยกากบาท (X)" หรือ "รอยมาร์ค" ที่ชัดเจนกว่าช่องอื่น ให้ถือว่าเป็น "เฉลย"
     - สำหรับช่องที่เป็นเฉลย ให้ระบุ "isMarked": true
-    - ทุกข้อ (1 ถึง ${questionCount}) ต้องระบุ "isMarked": true เพียง "หนึ่งช่อง" เท่านั้น
+    - ทุกข้อต้องระบุ "isMarked": true เพียง "หนึ่งช่อง" เท่านั้น
+
+    ช่องระบายเลขประจำตัวนักเรียน (ถ้ามี):
+    - มักเป็นตารางตัวเลข แต่ละหลักเป็นแนวตั้ง มีช่อง 0 ถึง 9 เรียงจากบนลงล่าง
+    - ระบุพิกัดของทุกช่องใน "idGrid" โดย column คือหลักที่ (1 = หลักซ้ายสุด) และ digit คือตัวเลข 0-9 ของช่องนั้น
+    - ถ้าไม่มีตารางนี้บนกระดาษ ให้ส่ง idGrid เป็นรายการว่าง
+
+    ช่องระบายชุดข้อสอบ (ถ้ามี):
+    - กลุ่มช่องที่มีคำว่า "ชุด" หรือ "ชุดที่" กำกับ ตัวเลือกเป็น ก, ข, ค, ง
+    - ระบุพิกัดของทุกช่องใน "versionBoxes" พร้อม label ของช่อง
+    - ถ้าไม่มี ให้ส่ง versionBoxes เป็นรายการว่าง
 
     งานที่ต้องทำ:
-    1. ตรวจพิกัด x, y, w, h (หน่วยเป็น %) ของทุกช่อง ก, ข, ค, ง ในทุกข้อ
+    1. ตรวจพิกัด x, y, w, h (หน่วยเป็น %) ของทุกช่องตัวเลือกในทุกข้อ
     2. ระบุว่าช่องใดคือเฉลย (isMarked: true)
+    3. ตรวจพิกัดช่องระบายเลขประจำตัวนักเรียน (idGrid)
+    4. ตรวจพิกัดช่องระบายชุดข้อสอบ (versionBoxes)
 
     ส่งผลลัพธ์เป็น JSON เท่านั้น
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { inlineData: { data: base64Data, mimeType: 'image/jpeg' } }, 
-          { text: prompt }
-        ]
-      },
-      config: {
-        systemInstruction: "คุณคือ AI ผู้เชี่ยวชาญด้านการตรวจกระดาษคำตอบ (OMR) หน้าที่ของคุณคือการมองหา 'รอยกากบาท' ในช่องคำตอบ 4 ช่องที่เรียงกันในแนวนอนเพื่อระบุว่าเป็นตัวเลือก ก, ข, ค หรือ ง และส่งพิกัดพร้อมสถานะเฉลยกลับมาในรูปแบบ JSON ที่ถูกต้องแม่นยำ 100%",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            boxes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  questionNumber: { type: Type.INTEGER, description: "เลขข้อสอบ" },
-                  optionLabel: { type: Type.STRING, description: "ตัวเลือก (ก, ข, ค, ง)" },
-                  x: { type: Type.NUMBER, description: "พิกัด X เริ่มต้น (%)" },
-                  y: { type: Type.NUMBER, description: "พิกัด Y เริ่มต้น (%)" },
-                  w: { type: Type.NUMBER, description: "ความกว้าง (%)" },
-                  h: { type: Type.NUMBER, description: "ความสูง (%)" },
-                  isMarked: { type: Type.BOOLEAN, description: "เป็นช่องที่มีรอยกากบาทเฉลยหรือไม่" }
-                },
-                required: ['questionNumber', 'optionLabel', 'x', 'y', 'w', 'h', 'isMarked']
-              }
+    const data = await runVisionTask({
+      task: 'master',
+      parts: [{ imageUrl: base64DataUrl }, { text: prompt }],
+      systemInstruction: `คุณคือ AI ผู้เชี่ยวชาญด้านการตรวจกระดาษคำตอบ (OMR) หน้าที่ของคุณคือการมองหา 'รอยกากบาท' ในช่องคำตอบที่เรียงกันในแนวนอนเพื่อระบุว่าเป็นตัวเลือก ${labelList} หรือ ${TRUE_FALSE_LABELS.join('/')} และส่งพิกัดพร้อมสถานะเฉลยกลับมาในรูปแบบ JSON ที่ถูกต้องแม่นยำ 100%`,
+      schema: {
+        type: 'object',
+        properties: {
+          boxes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                questionNumber: { type: 'integer', description: "เลขข้อสอบ" },
+                optionLabel: { type: 'string', description: `ตัวเลือก (${labelList} หรือ ${TRUE_FALSE_LABELS.join(', ')})` },
+                ...REGION_PROPERTIES,
+                isMarked: { type: 'boolean', description: "เป็นช่องที่มีรอยกากบาทเฉลยหรือไม่" }
+              },
+              required: ['questionNumber', 'optionLabel', 'x', 'y', 'w', 'h', 'isMarked']
+            }
+          },
+          idGrid: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                column: { type: 'integer', description: "หลักที่ของเลขประจำตัว (1 = ซ้ายสุด)" },
+                digit: { type: 'integer', description: "ตัวเลขของช่อง (0-9)" },
+                ...REGION_PROPERTIES
+              },
+              required: ['column', 'digit', 'x', 'y', 'w', 'h']
+            }
+          },
+          versionBoxes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                label: { type: 'string', description: "ชื่อชุด (ก, ข, ค, ง)" },
+                ...REGION_PROPERTIES
+              },
+              required: ['label', 'x', 'y', 'w', 'h']
             }
           }
         },
-        thinkingConfig: { thinkingBudget: 2000 }
-      }
+        required: ['boxes']
+      },
+      thinkingBudget: 2000,
+      context: { questionCount, labels, page, pageCount }
+    });
+
+    // รับเฉพาะช่องที่สมเหตุสมผล และตัดช่องซ้ำ (ข้อและตัวเลือกเดียวกัน)
+    const allowedLabels = new Set([...labels, ...TRUE_FALSE_LABELS]);
+    const seen = new Set<string>();
+    const validBoxes = (data.boxes as any[]).filter(b => {
+      const key = `${b.questionNumber}:${b.optionLabel}`;
+      const ok = isValidRegion(b) && b.questionNumber >= 1 && b.questionNumber <= questionCount &&
+        allowedLabels.has(b.optionLabel) && !seen.has(key);
+      // จำเฉพาะช่องที่ใช้ได้ ช่องที่ผิดรูปแบบไม่ควรทำให้ช่องถัดไปของข้อเดียวกันถูกตัดเป็นช่องซ้ำ
+      if (ok) seen.add(key);
+      return ok;
     });
+    if (validBoxes.length === 0) throw new Error("ไม่พบช่องคำตอบที่ใช้ได้ในผลลัพธ์");
 
-    const text = response.text;
-    if (!text) throw new Error("AI ไม่ตอบสนอง");
-    
-    const jsonStr = extractJson(text);
-    const data = JSON.parse(jsonStr);
-    
-    if (!data.boxes || !Array.isArray(data.boxes)) {
-      throw new Error("ข้อมูล JSON ผิดพลาด");
-    }
-
-    const boxes: BoxCoordinate[] = data.boxes.map((b: any, i: number) => ({
+    const pageField = pageCount > 1 ? { page } : {};
+    const boxes: BoxCoordinate[] = validBoxes.map((b, i) => ({
       id: `box-${i}`,
-      ...b
+      questionNumber: b.questionNumber,
+      optionLabel: b.optionLabel,
+      x: b.x, y: b.y, w: b.w, h: b.h,
+      ...pageField
     }));
 
     // ดึงเฉลยจากช่องที่ isMarked เป็น true
     const correctAnswers: Record<number, string> = {};
-    data.boxes.forEach((b: any) => {
+    validBoxes.forEach(b => {
       if (b.isMarked === true) {
         correctAnswers[b.questionNumber] = b.optionLabel;
       }
     });
 
-    return { boxes, correctAnswers };
+    // รับเฉพาะหลักที่มีช่องครบ 0-9 เพื่อไม่ให้อ่านเลขประจำตัวผิดหลัก
+    const rawGrid: any[] = (data.idGrid ?? []).filter(isValidRegion);
+    const idGrid: IdGridBox[] = rawGrid
+      .filter(b => new Set(rawGrid.filter(o => o.column === b.column).map(o => o.digit)).size === 10)
+      .map((b, i) => ({ id: `id-${i}`, column: b.column, digit: b.digit, x: b.x, y: b.y, w: b.w, h: b.h, ...pageField }));
+
+    const versionBoxes: VersionBox[] = (data.versionBoxes ?? [])
+      .filter(isValidRegion)
+      .map((b: any, i: number) => ({ id: `version-${i}`, label: b.label, x: b.x, y: b.y, w: b.w, h: b.h, ...pageField }));
+
+    return { boxes, correctAnswers, idGrid, versionBoxes };
   } catch (error: any) {
     console.error("Master Analysis Detailed Error:", error);
-    if (error.message?.includes("429") || error.message?.includes("quota")) {
-      throw new Error("โควต้า API เต็ม กรุณารอครู่หนึ่งแล้วลองใหม่");
-    }
-    throw new Error("ไม่สามารถระบุเฉลยได้: " + error.message);
+    throw describeError("ไม่สามารถระบุเฉลยได้: ", error);
+  }
+};
+
+// แถวคำตอบของนักเรียนหนึ่งข้อที่ตัดจากภาพที่จัดแนวแล้ว ส่งให้ AI อ่านซ้ำ
+export interface QuestionCrop {
+  question: number;
+  labels: string[]; // ตัวเลือกเรียงจากซ้ายไปขวา
+  imageUrl: string;
+}
+
+export interface AiQuestionRead {
+  question: number;
+  answer: string; // '' = ไม่ได้เลือก
+  unclear: boolean;
+}
+
+export const recheckQuestions = async (crops: QuestionCrop[]): Promise<AiQuestionRead[]> => {
+  const parts = crops.flatMap(crop => [
+    { text: `ข้อ ${crop.question} (ช่องจากซ้ายไปขวา: ${crop.labels.join(', ')})` },
+    { imageUrl: crop.imageUrl }
+  ]);
+
+  const prompt = `
+    คำสั่ง: ภาพด้านบนคือแถวคำตอบจากกระดาษคำตอบของนักเรียน ภาพละ 1 ข้อ ให้ระบุว่านักเรียน "ตั้งใจ" เลือกช่องใด
+
+    หลักการตัดสิน:
+    - ช่องที่มีรอยกากบาท (X) ชัดเจน คือคำตอบที่เลือก
+    - ช่องที่ถูกขีดฆ่า ระบายทับ หรือขีดเส้นทับกากบาท ถือว่านักเรียน "ยกเลิก" ช่องนั้น
+    - รอยจางหรือรอยยางลบที่เหลืออยู่ ไม่นับเป็นคำตอบ
+    - ถ้าไม่ได้เลือกช่องใดเลย ให้ answer เป็นข้อความว่าง
+    - ถ้ามีกากบาทชัดเจนมากกว่าหนึ่งช่อง หรือตัดสินไม่ได้ ให้ unclear เป็น true
+
+    ส่งผลลัพธ์เป็น JSON เท่านั้น ครบทุกข้อที่ได้รับ
+  `;
+
+  try {
+    const data = await runVisionTask({
+      task: 'recheck',
+      parts: [...parts, { text: prompt }],
+      systemInstruction: "คุณคือ AI ผู้เชี่ยวชาญด้านการตรวจกระดาษคำตอบ (OMR) ทำหน้าที่ตรวจซ้ำข้อที่เครื่องอ่านไม่ชัด ตอบตามสิ่งที่เห็นในภาพเท่านั้น",
+      schema: {
+        type: 'object',
+        properties: {
+          answers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                questionNumber: { type: 'integer', description: "เลขข้อตามที่ระบุก่อนภาพ" },
+                answer: { type: 'string', description: "ตัวเลือกที่นักเรียนเลือก หรือข้อความว่างถ้าไม่ได้เลือก" },
+                unclear: { type: 'boolean', description: "ตัดสินไม่ได้หรือเลือกหลายช่อง" }
+              },
+              required: ['questionNumber', 'answer', 'unclear']
+            }
+          }
+        },
+        required: ['answers']
+      },
+      thinkingBudget: 1000,
+      context: { questions: crops.map(c => c.question) }
+    });
+
+    // รับเฉพาะข้อที่ส่งไป และคำตอบที่เป็นตัวเลือกของข้อนั้นจริง
+    return crops.flatMap(crop => {
+      const read = data.answers.find((a: any) => a.questionNumber === crop.question);
+      if (!read) return [];
+      const answer = read.answer.trim();
+      const valid = answer === '' || crop.labels.includes(answer);
+      return [{ question: crop.question, answer: valid ? answer : '', unclear: read.unclear || !valid }];
+    });
+  } catch (error: any) {
+    console.error("Recheck Detailed Error:", error);
+    throw describeError("AI ตรวจซ้ำไม่สำเร็จ: ", error);
   }
 };
 
-export const checkInkDensity = (ctx: CanvasRenderingContext2D, box: BoxCoordinate, cw: number, ch: number): number => {
-  const x = (box.x / 100) * cw;
-  const y = (box.y / 100) * ch;
-  const w = (box.w / 100) * cw;
-  const h = (box.h / 100) * ch;
-  
+// คำตอบข้อเขียนหนึ่งข้อที่ตัดจากภาพ พร้อมเกณฑ์สำหรับให้ AI เสนอคะแนน
+export interface WrittenCrop {
+  regionId: string;
+  prompt?: string;
+  rubric: string;
+  maxScore: number;
+  imageUrl: string;
+}
+
+export interface WrittenProposal {
+  regionId: string;
+  score: number;
+  reason: string;
+  transcript: string;
+}
+
+export const scoreWrittenAnswers = async (crops: WrittenCrop[]): Promise<WrittenProposal[]> => {
+  const parts = crops.flatMap((crop, i) => [
+    {
+      text: [
+        `คำตอบที่ ${i + 1} (คะแนนเต็ม ${crop.maxScore})`,
+        crop.prompt ? `โจทย์: ${crop.prompt}` : '',
+        `เกณฑ์การให้คะแนน: ${crop.rubric}`
+      ].filter(Boolean).join('\n')
+    },
+    { imageUrl: crop.imageUrl }
+  ]);
+
+  const prompt = `
+    คำสั่ง: ภาพด้านบนคือคำตอบแบบเขียนของนักเรียน ให้อ่านลายมือและเสนอคะแนนของแต่ละคำตอบตามเกณฑ์ที่กำหนด
+
+    หลักการให้คะแนน:
+    - ให้คะแนนตามเกณฑ์เท่านั้น ไม่เกินคะแนนเต็ม และไม่ต่ำกว่า 0 (ให้ครึ่งคะแนนได้)
+    - ถ้าไม่ได้เขียนคำตอบ ให้ 0 คะแนน
+    - เหตุผลต้องสั้น เป็นภาษาไทย ระบุว่าตรงหรือขาดเกณฑ์ข้อใด เพื่อให้ครูตรวจทานได้เร็ว
+    - transcript คือข้อความที่อ่านได้จากลายมือ (ถ้าอ่านไม่ออกให้ใส่ "อ่านไม่ออก")
+
+    ส่งผลลัพธ์เป็น JSON เท่านั้น ครบทุกคำตอบที่ได้รับ
+  `;
+
   try {
-    // โฟกัสไปที่พื้นที่ตรงกลาง 60% ของช่องเพื่อตรวจรอยกากบาท
-    const data = ctx.getImageData(x+(w*0.2), y+(h*0.2), w*0.6, h*0.6).data;
-    let darkPixels = 0;
-    for (let i = 0; i < data.length; i += 4) {
-      const brightness = (data[i] + data[i+1] + data[i+2]) / 3;
-      if (brightness < 160) darkPixels++;
-    }
-    return darkPixels / (w*0.6 * h*0.6);
-  } catch (e) { 
-    return 0; 
+    const data = await runVisionTask({
+      task: 'written',
+      parts: [...parts, { text: prompt }],
+      systemInstruction: "คุณคือผู้ช่วยครูในการตรวจข้อสอบอัตนัย เสนอคะแนนอย่างเป็นกลางตามเกณฑ์ ครูจะเป็นผู้ยืนยันคะแนนสุดท้าย",
+      schema: {
+        type: 'object',
+        properties: {
+          scores: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                answerNumber: { type: 'integer', description: "ลำดับคำตอบตามที่ระบุก่อนภาพ" },
+                score: { type: 'number' },
+                reason: { type: 'string' },
+                transcript: { type: 'string' }
+              },
+              required: ['answerNumber', 'score', 'reason', 'transcript']
+            }
+          }
+        },
+        required: ['scores']
+      },
+      thinkingBudget: 2000,
+      context: { count: crops.length }
+    });
+
+    // ปัดเป็นครึ่งคะแนนและจำกัดไม่ให้เกินคะแนนเต็ม
+    return crops.flatMap((crop, i) => {
+      const item = data.scores.find((s: any) => s.answerNumber === i + 1);
+      if (!item) return [];
+      const score = Math.min(crop.maxScore, Math.max(0, Math.round(item.score * 2) / 2));
+      return [{ regionId: crop.regionId, score, reason: item.reason, transcript: item.transcript }];
+    });
+  } catch (error: any) {
+    console.error("Written Scoring Detailed Error:", error);
+    throw describeError("AI เสนอคะแนนข้อเขียนไม่สำเร็จ: ", error);
   }
 };
 
@@ -140,3 +361,32 @@ export const fileToBase64 = (file: File): Promise<string> => {
     rd.onerror = e => j(e);
   });
 };
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((r, j) => {
+    const img = new Image();
+    img.onload = () => r(img);
+    img.onerror = () => j(new Error("ไม่สามารถเปิดไฟล์ภาพได้"));
+    img.src = src;
+  });
+};
+
+export const readImageData = (canvas: HTMLCanvasElement, img: HTMLImageElement): ImageData => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  canvas.width = img.width; canvas.height = img.height;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+// ตัดส่วนของภาพตามกรอบ (พิกัด % ของภาพ) ย่อให้กว้างไม่เกิน maxWidth แล้วคืนเป็น JPEG data URL
+export const cropRegion = (canvas: HTMLCanvasElement, img: HTMLImageElement, region: BoxRegion, maxWidth: number): string => {
+  const sx = (region.x / 100) * img.width;
+  const sy = (region.y / 100) * img.height;
+  const sw = (region.w / 100) * img.width;
+  const sh = (region.h / 100) * img.height;
+  const scale = Math.min(1, maxWidth / sw);
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  canvas.getContext('2d')!.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
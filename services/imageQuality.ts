@@ -0,0 +1,92 @@
+import { ImageQuality, Point, QualityStatus, SheetRegistration } from "../types.ts";
+import { brightFraction, laplacianVariance, meanBrightness, toGray } from "./imageUtils.ts";
+
+// ตรวจคุณภาพภาพกระดาษคำตอบก่อนอ่านรอยมาร์ค ภาพที่ไม่ผ่านควรถ่ายใหม่แทนการให้คะแนนผิดๆ
+
+// วัดบนภาพย่อขนาดคงที่ เพื่อให้ค่าความคมชัดเทียบกันได้ระหว่างภาพต่างความละเอียด
+const ANALYSIS_DIM = 640;
+// ความมั่นใจขั้นต่ำของขอบกระดาษที่หาได้ จึงจะใช้วัดขนาดกระดาษในภาพ
+const MIN_REGISTRATION_CONFIDENCE = 0.3;
+
+export const QUALITY_LIMITS = {
+  blur: { fail: 25, warn: 60 }, // Laplacian variance
+  brightness: { fail: 50, warn: 80 }, // ความสว่างเฉลี่ย 0-255
+  glare: { fail: 0.15, warn: 0.05 }, // สัดส่วนพิกเซลที่สว่างจนขาว
+  coverage: { fail: 0.25, warn: 0.35, edge: 0.97 }, // สัดส่วนพื้นที่กระดาษในภาพ
+  resolution: { fail: 500, warn: 900 } // ความกว้างของกระดาษในภาพ (พิกเซล ด้านสั้น)
+};
+
+export interface QualityMetrics {
+  blur: number;
+  brightness: number;
+  glare: number;
+  coverage: number | null; // null = หากระดาษในภาพไม่พบ
+  resolution: number;
+}
+
+// พื้นที่ของรูปสี่เหลี่ยมจากมุมกระดาษ (พิกัดสัดส่วน 0-1) = สัดส่วนที่กระดาษกินพื้นที่ภาพ
+export const quadCoverage = (corners: Point[]): number => {
+  let sum = 0;
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i], b = corners[(i + 1) % corners.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+};
+
+export const measureQuality = (image: ImageData, registration: SheetRegistration): QualityMetrics => {
+  const gray = toGray(image, ANALYSIS_DIM);
+  const found = registration.method !== 'none' && registration.confidence >= MIN_REGISTRATION_CONFIDENCE;
+  const coverage = found ? quadCoverage(registration.corners) : null;
+  return {
+    blur: laplacianVariance(gray),
+    brightness: meanBrightness(gray),
+    glare: brightFraction(gray),
+    coverage,
+    resolution: Math.round(Math.min(image.width, image.height) * Math.sqrt(coverage ?? 1))
+  };
+};
+
+// expectRegistration = ต้นแบบมีจุดอ้างอิง/ขอบกระดาษ ภาพนักเรียนจึงต้องหาเจอด้วย
+export const assessQuality = (metrics: QualityMetrics, expectRegistration: boolean): ImageQuality => {
+  const fails: string[] = [];
+  const warns: string[] = [];
+  const { blur, brightness, glare, coverage, resolution } = QUALITY_LIMITS;
+
+  if (metrics.blur < blur.fail) fails.push("ภาพเบลอ กรุณาถ่ายใหม่");
+  else if (metrics.blur < blur.warn) warns.push("ภาพไม่ค่อยคมชัด");
+
+  if (metrics.brightness < brightness.fail) fails.push("ภาพมืดเกินไป กรุณาถ่ายใหม่ในที่สว่าง");
+  else if (metrics.brightness < brightness.warn) warns.push("ภาพค่อนข้างมืด");
+
+  if (metrics.glare > glare.fail) fails.push("มีแสงสะท้อนบนกระดาษมาก กรุณาถ่ายใหม่");
+  else if (metrics.glare > glare.warn) warns.push("มีแสงสะท้อนบางส่วน");
+
+  if (metrics.coverage === null) {
+    if (expectRegistration) fails.push("ไม่พบขอบหรือจุดอ้างอิงครบ 4 มุม กระดาษอาจถูกตัด กรุณาถ่ายใหม่");
+  } else if (metrics.coverage < coverage.fail) {
+    fails.push("กระดาษเล็กเกินไปในภาพ กรุณาถ่ายให้ใกล้ขึ้น");
+  } else if (metrics.coverage < coverage.warn) {
+    warns.push("กระดาษค่อนข้างเล็กในภาพ");
+  } else if (metrics.coverage > coverage.edge) {
+    warns.push("ขอบกระดาษชิดขอบภาพ อาจถูกตัดบางส่วน");
+  }
+
+  if (metrics.resolution < resolution.fail) fails.push("ความละเอียดภาพต่ำเกินไป กรุณาถ่ายใหม่");
+  else if (metrics.resolution < resolution.warn) warns.push("ความละเอียดภาพค่อนข้างต่ำ");
+
+  const status: QualityStatus = fails.length > 0 ? 'fail' : warns.length > 0 ? 'warn' : 'pass';
+  return { status, reasons: [...fails, ...warns] };
+};
+
+const STATUS_RANK: Record<QualityStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+// รวมผลของทุกหน้า ใช้สถานะที่แย่ที่สุด และระบุหน้าในเหตุผลเมื่อมีหลายหน้า
+export const mergeQuality = (pages: ImageQuality[]): ImageQuality => {
+  if (pages.length === 1) return pages[0];
+  const worst = pages.reduce<QualityStatus>((s, p) => (STATUS_RANK[p.status] > STATUS_RANK[s] ? p.status : s), 'pass');
+  return {
+    status: worst,
+    reasons: pages.flatMap((p, i) => p.reasons.map(r => `หน้า ${i + 1}: ${r}`))
+  };
+};
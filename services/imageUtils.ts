@@ -0,0 +1,197 @@
+import { BoxRegion } from "../types.ts";
+
+// ฟังก์ชันพื้นฐานสำหรับประมวลผลพิกเซล (ใช้ร่วมกันระหว่างการจัดแนวภาพและการตรวจรอยมาร์ค)
+// ไม่ใช้ DOM เพื่อให้เรียกได้ทั้งในหน้าเว็บและใน Web Worker
+
+// canvas บนหน้าเว็บหรือ OffscreenCanvas ใน Worker
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface GrayImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export const toGray = (image: ImageData, maxDim = Infinity): GrayImage => {
+  const scale = Math.min(1, maxDim / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const out = new Uint8Array(width * height);
+  const src = image.data;
+  const stepX = image.width / width;
+  const stepY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * stepY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * stepY));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * stepX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * stepX));
+      // เฉลี่ยพิกเซลในบล็อกเพื่อลดสัญญาณรบกวนเมื่อย่อภาพ
+      let sum = 0;
+      let count = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) {
+          const i = (yy * image.width + xx) * 4;
+          sum += (src[i] + src[i + 1] + src[i + 2]) / 3;
+          count++;
+        }
+      }
+      out[y * width + x] = sum / count;
+    }
+  }
+  return { data: out, width, height };
+};
+
+export const histogram = (values: ArrayLike<number>): Uint32Array => {
+  const hist = new Uint32Array(256);
+  for (let i = 0; i < values.length; i++) hist[values[i] | 0]++;
+  return hist;
+};
+
+// หาค่า threshold ด้วยวิธีของ Otsu (แยกหมึกออกจากพื้นกระดาษ)
+export const otsuThreshold = (hist: Uint32Array): number => {
+  let total = 0;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) {
+    total += hist[i];
+    sumAll += i * hist[i];
+  }
+  if (total === 0) return 128;
+
+  let sumBg = 0;
+  let weightBg = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBg += hist[t];
+    if (weightBg === 0) continue;
+    const weightFg = total - weightBg;
+    if (weightFg === 0) break;
+    sumBg += t * hist[t];
+    const meanBg = sumBg / weightBg;
+    const meanFg = (sumAll - sumBg) / weightFg;
+    const between = weightBg * weightFg * (meanBg - meanFg) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+// ความแปรปรวนของ Laplacian ค่าต่ำ = ภาพเบลอ
+export const laplacianVariance = (gray: GrayImage): number => {
+  const { data, width, height } = gray;
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += lap;
+      sumSq += lap * lap;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+export const meanBrightness = (gray: GrayImage): number => {
+  let sum = 0;
+  for (let i = 0; i < gray.data.length; i++) sum += gray.data[i];
+  return gray.data.length ? sum / gray.data.length : 0;
+};
+
+// สัดส่วนพิกเซลที่สว่างจนเกือบขาว (แสงสะท้อน)
+export const brightFraction = (gray: GrayImage, level = 250): number => {
+  let count = 0;
+  for (let i = 0; i < gray.data.length; i++) if (gray.data[i] >= level) count++;
+  return gray.data.length ? count / gray.data.length : 0;
+};
+
+export interface Component {
+  label: number;
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  sumX: number;
+  sumY: number;
+}
+
+// แบ่งพิกเซลหมึกที่ติดกันเป็นกลุ่ม (4 ทิศ)
+export const labelComponents = (mask: Uint8Array, width: number, height: number) => {
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  const components: Component[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const comp: Component = {
+      label: components.length + 1, area: 0,
+      minX: width, minY: height, maxX: 0, maxY: 0, sumX: 0, sumY: 0
+    };
+    let top = 0;
+    stack[top++] = start;
+    labels[start] = comp.label;
+    while (top > 0) {
+      const idx = stack[--top];
+      const x = idx % width;
+      const y = (idx - x) / width;
+      comp.area++;
+      comp.sumX += x;
+      comp.sumY += y;
+      if (x < comp.minX) comp.minX = x;
+      if (x > comp.maxX) comp.maxX = x;
+      if (y < comp.minY) comp.minY = y;
+      if (y > comp.maxY) comp.maxY = y;
+      const neighbours = [
+        x > 0 ? idx - 1 : -1,
+        x < width - 1 ? idx + 1 : -1,
+        y > 0 ? idx - width : -1,
+        y < height - 1 ? idx + width : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !labels[n]) {
+          labels[n] = comp.label;
+          stack[top++] = n;
+        }
+      }
+    }
+    components.push(comp);
+  }
+  return { labels, components };
+};
+
+// โฟกัสไปที่พื้นที่ตรงกลาง 60% ของช่องเพื่อตรวจรอยกากบาท
+export const sampleBoxImage = (ctx: Canvas2D, box: BoxRegion, cw: number, ch: number): ImageData | null => {
+  const x = (box.x / 100) * cw;
+  const y = (box.y / 100) * ch;
+  const w = (box.w / 100) * cw;
+  const h = (box.h / 100) * ch;
+
+  try {
+    return ctx.getImageData(x+(w*0.2), y+(h*0.2), w*0.6, h*0.6);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const sampleBoxPixels = (ctx: Canvas2D, box: BoxRegion, cw: number, ch: number): Uint8ClampedArray | null =>
+  sampleBoxImage(ctx, box, cw, ch)?.data ?? null;
+
+export const checkInkDensity = (ctx: Canvas2D, box: BoxRegion, cw: number, ch: number, threshold = 160): number => {
+  const data = sampleBoxPixels(ctx, box, cw, ch);
+  if (!data || data.length === 0) return 0;
+  let darkPixels = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const brightness = (data[i] + data[i+1] + data[i+2]) / 3;
+    if (brightness < threshold) darkPixels++;
+  }
+  return darkPixels / (data.length / 4);
+};
@@ -0,0 +1,186 @@
+import { GradingResult, MasterConfig } from "../types.ts";
+import { questionOptions, resolveKey } from "./answerKey.ts";
+import { canonicalizeResult, itemCorrectRates, versionLabels } from "./versions.ts";
+
+// วิเคราะห์ข้อสอบรายข้อ (ความยาก อำนาจจำแนก ตัวลวง) และค่าสถิติทั้งฉบับ (KR-20, ค่าเฉลี่ย, SD)
+
+const GROUP_RATIO = 0.27;
+
+export type ItemFlag = 'negative' | 'wrong-key' | 'too-hard' | 'too-easy' | 'low-discrimination';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  'negative': 'อำนาจจำแนกติดลบ',
+  'wrong-key': 'อาจเฉลยผิด',
+  'too-hard': 'ยากเกินไป',
+  'too-easy': 'ง่ายเกินไป',
+  'low-discrimination': 'อำนาจจำแนกต่ำ'
+};
+
+export interface OptionStat {
+  label: string; // '' = ไม่ตอบ
+  count: number;
+  upper: number;
+  lower: number;
+  isKey: boolean;
+}
+
+export interface ItemStat {
+  question: number; // เลขข้อของชุดหลัก
+  key: string[];
+  attempts: number;
+  difficulty: number; // p
+  discrimination: number; // D = p(กลุ่มสูง) - p(กลุ่มต่ำ)
+  pointBiserial: number; // r_pb
+  options: OptionStat[];
+  byVersion: Record<string, number>; // p แยกตามชุด
+  flags: ItemFlag[];
+}
+
+export interface TestStat {
+  count: number;
+  itemCount: number;
+  mean: number;
+  sd: number;
+  median: number;
+  min: number;
+  max: number;
+  total: number;
+  kr20: number;
+  histogram: { from: number; to: number; count: number }[];
+}
+
+export interface ItemAnalysis {
+  items: ItemStat[];
+  test: TestStat;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+// ใช้ความแปรปรวนของประชากร (หารด้วย n) ตามสูตร KR-20
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return values.length ? values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length : 0;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const buildHistogram = (scores: number[], total: number) => {
+  // ช่วงละ width คะแนน [from, to) ยกเว้นช่วงสุดท้ายรวมคะแนนเต็ม
+  const width = Math.max(1, Math.ceil(total / 10));
+  const bins: TestStat['histogram'] = [];
+  for (let from = 0; from < total || bins.length === 0; from += width) {
+    bins.push({ from, to: Math.min(total, from + width), count: 0 });
+  }
+  scores.forEach(s => {
+    const index = Math.min(bins.length - 1, Math.max(0, Math.floor(s / width)));
+    if (bins[index]) bins[index].count++;
+  });
+  return bins;
+};
+
+export const analyzeItems = (graded: GradingResult[], master: MasterConfig): ItemAnalysis => {
+  const results = graded.map(r => canonicalizeResult(r, master));
+  const scores = results.map(r => r.score);
+  const n = results.length;
+
+  // กลุ่มสูง/กลุ่มต่ำ 27% ตามคะแนนรวม
+  const ranked = results.map((r, i) => ({ i, score: r.score })).sort((a, b) => b.score - a.score);
+  const groupSize = Math.max(1, Math.round(n * GROUP_RATIO));
+  const upper = new Set(ranked.slice(0, groupSize).map(r => r.i));
+  const lower = new Set(ranked.slice(-groupSize).map(r => r.i));
+
+  const questions = Array.from(new Set(results.flatMap(r => r.details.filter(d => d.maxPoints !== 0).map(d => d.question))))
+    .sort((a, b) => a - b);
+  const rates = new Map(itemCorrectRates(graded, master).map(r => [r.question, r]));
+  const hasVersions = (master.versions ?? []).length > 0;
+  const meanScore = mean(scores);
+  const sdScore = Math.sqrt(variance(scores));
+
+  const items: ItemStat[] = questions.map(question => {
+    const key = resolveKey(master, question);
+    const rows = results.map((r, i) => ({ i, score: r.score, detail: r.details.find(d => d.question === question) }))
+      .filter(row => row.detail);
+    const attempts = rows.length;
+    const correctRows = rows.filter(row => row.detail!.isCorrect);
+    const p = attempts ? correctRows.length / attempts : 0;
+
+    const upperRows = rows.filter(row => upper.has(row.i));
+    const lowerRows = rows.filter(row => lower.has(row.i));
+    const pUpper = upperRows.length ? upperRows.filter(row => row.detail!.isCorrect).length / upperRows.length : 0;
+    const pLower = lowerRows.length ? lowerRows.filter(row => row.detail!.isCorrect).length / lowerRows.length : 0;
+
+    let pointBiserial = 0;
+    if (sdScore > 0 && p > 0 && p < 1) {
+      const meanCorrect = mean(correctRows.map(row => row.score));
+      const meanWrong = mean(rows.filter(row => !row.detail!.isCorrect).map(row => row.score));
+      pointBiserial = ((meanCorrect - meanWrong) / sdScore) * Math.sqrt(p * (1 - p));
+    }
+
+    const choices = questionOptions(master, question);
+    const labels = Array.from(new Set([...choices, ...rows.map(row => row.detail!.studentAnswer).filter(Boolean)]));
+    const options: OptionStat[] = [...labels, ''].map(label => {
+      const chosen = rows.filter(row => row.detail!.studentAnswer === label);
+      return {
+        label,
+        count: chosen.length,
+        upper: chosen.filter(row => upper.has(row.i)).length,
+        lower: chosen.filter(row => lower.has(row.i)).length,
+        isKey: label !== '' && key.accepted.includes(label)
+      };
+    }).filter(o => o.count > 0 || o.isKey || choices.includes(o.label));
+
+    const discrimination = pUpper - pLower;
+    const flags: ItemFlag[] = [];
+    if (attempts >= 2) {
+      if (discrimination < 0 || pointBiserial < 0) flags.push('negative');
+      else if (discrimination < 0.2) flags.push('low-discrimination');
+      if (p < 0.2) flags.push('too-hard');
+      if (p > 0.8) flags.push('too-easy');
+      // กลุ่มสูงเลือกตัวลวงตัวใดตัวหนึ่งมากกว่าตัวเฉลย (ข้ามเมื่อมีหลายชุด เพราะตัวเลือกอาจถูกสลับด้วย)
+      const keyUpper = options.filter(o => o.isKey).reduce((sum, o) => sum + o.upper, 0);
+      if (!hasVersions && key.policy === 'normal' && options.some(o => !o.isKey && o.label !== '' && o.upper > keyUpper)) {
+        flags.push('wrong-key');
+      }
+    }
+
+    const byVersion: Record<string, number> = {};
+    const rate = rates.get(question);
+    if (hasVersions && rate) {
+      versionLabels(master).forEach(l => {
+        const v = rate.byVersion[l];
+        if (v && v.attempts > 0) byVersion[l] = v.correct / v.attempts;
+      });
+    }
+
+    return { question, key: key.accepted, attempts, difficulty: p, discrimination, pointBiserial, options, byVersion, flags };
+  });
+
+  // KR-20 ใช้คะแนนแบบถูก/ผิด (0/1) ของแต่ละข้อ
+  const k = items.length;
+  const rawScores = results.map(r => r.details.filter(d => d.maxPoints !== 0 && d.isCorrect).length);
+  const rawVariance = variance(rawScores);
+  const sumPq = items.reduce((sum, item) => sum + item.difficulty * (1 - item.difficulty), 0);
+  const kr20 = k > 1 && rawVariance > 0 ? (k / (k - 1)) * (1 - sumPq / rawVariance) : 0;
+  const total = results.reduce((max, r) => Math.max(max, r.total), 0);
+
+  return {
+    items,
+    test: {
+      count: n,
+      itemCount: k,
+      mean: meanScore,
+      sd: sdScore,
+      median: median(scores),
+      min: n ? Math.min(...scores) : 0,
+      max: n ? Math.max(...scores) : 0,
+      total,
+      kr20,
+      histogram: buildHistogram(scores, total)
+    }
+  };
+};
@@ -0,0 +1,247 @@
+import { BoxCoordinate, BoxRegion, IdGridBox, VersionBox } from "../types.ts";
+import { Canvas2D, checkInkDensity, Component, GrayImage, histogram, labelComponents, otsuThreshold, toGray } from "./imageUtils.ts";
+import { DEFAULT_OPTION_COUNT, OPTION_LABELS, TRUE_FALSE_LABELS } from "./answerKey.ts";
+
+// ตรวจหาตำแหน่งช่องคำตอบบนกระดาษต้นแบบในเครื่อง โดยไม่ต้องใช้ AI
+
+const WORK_SIZE = 1400;
+// ช่องที่มีรอยมาร์คต้องเข้มกว่าช่องอื่นในข้อเดียวกันอย่างน้อยเท่านี้จึงถือเป็นเฉลย
+const MIN_MARK_DENSITY = 0.15;
+const MIN_MARK_GAP = 0.1;
+
+export interface LayoutDetection {
+  boxes: BoxCoordinate[];
+  correctAnswers: Record<number, string>;
+  idGrid: IdGridBox[];
+  versionBoxes: VersionBox[];
+  unmarkedQuestions: number[]; // ข้อที่หาช่องเฉลยไม่ได้ ครูต้องเลือกเอง
+  lastQuestion: number; // เลขข้อสุดท้ายที่พบในหน้านี้
+}
+
+export interface LayoutDetectionOptions {
+  optionCount?: number;
+  firstQuestion?: number; // เลขข้อแรกของหน้านี้ (ข้อสอบหลายหน้า)
+  page?: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const centerX = (r: Rect) => r.x + r.w / 2;
+const centerY = (r: Rect) => r.y + r.h / 2;
+
+// สัดส่วนของขอบแต่ละด้านที่มีเส้นหมึกของกลุ่มนี้อยู่ใกล้ ๆ (ช่องสี่เหลี่ยมมีเส้นครบทั้ง 4 ด้าน)
+const borderCoverage = (c: Component, labels: Int32Array, width: number): number => {
+  const bw = c.maxX - c.minX + 1;
+  const bh = c.maxY - c.minY + 1;
+  const band = Math.max(2, Math.round(Math.min(bw, bh) * 0.15));
+  const hit = (x: number, y: number) => labels[y * width + x] === c.label;
+
+  const scan = (length: number, probe: (i: number, d: number) => boolean) => {
+    let covered = 0;
+    for (let i = 0; i < length; i++) {
+      for (let d = 0; d < band; d++) {
+        if (probe(i, d)) {
+          covered++;
+          break;
+        }
+      }
+    }
+    return covered / length;
+  };
+
+  return Math.min(
+    scan(bw, (i, d) => hit(c.minX + i, c.minY + d)),
+    scan(bw, (i, d) => hit(c.minX + i, c.maxY - d)),
+    scan(bh, (i, d) => hit(c.minX + d, c.minY + i)),
+    scan(bh, (i, d) => hit(c.maxX - d, c.minY + i))
+  );
+};
+
+// หากลุ่มเส้นหมึกที่มีรูปร่างเป็นกรอบสี่เหลี่ยมขนาดใกล้เคียงช่องคำตอบ
+const findBoxOutlines = (gray: GrayImage): Rect[] => {
+  const { width, height } = gray;
+  const threshold = otsuThreshold(histogram(gray.data));
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) mask[i] = gray.data[i] <= threshold ? 1 : 0;
+  const { labels, components } = labelComponents(mask, width, height);
+
+  const minSide = Math.min(width, height);
+  const outlines = components.filter(c => {
+    const bw = c.maxX - c.minX + 1;
+    const bh = c.maxY - c.minY + 1;
+    const aspect = bw / bh;
+    if (bw < minSide * 0.008 || bw > minSide * 0.1 || aspect < 0.5 || aspect > 2) return false;
+    return borderCoverage(c, labels, width) >= 0.75;
+  }).map(c => ({ x: c.minX, y: c.minY, w: c.maxX - c.minX + 1, h: c.maxY - c.minY + 1 }));
+
+  // ช่องคำตอบบนกระดาษมีขนาดเท่ากัน ตัดกรอบที่ขนาดต่างจากค่ากลางมากออก
+  const medW = median(outlines.map(r => r.w));
+  const medH = median(outlines.map(r => r.h));
+  return outlines.filter(r => Math.abs(r.w - medW) <= medW * 0.35 && Math.abs(r.h - medH) <= medH * 0.35);
+};
+
+const groupRows = (rects: Rect[], rowTolerance: number): Rect[][] => {
+  const rows: Rect[][] = [];
+  for (const r of [...rects].sort((a, b) => centerY(a) - centerY(b))) {
+    const row = rows[rows.length - 1];
+    const rowY = row ? row.reduce((s, o) => s + centerY(o), 0) / row.length : 0;
+    if (row && Math.abs(centerY(r) - rowY) <= rowTolerance) row.push(r);
+    else rows.push([r]);
+  }
+  return rows.map(row => row.sort((a, b) => a.x - b.x));
+};
+
+const inkAt = (gray: GrayImage, r: Rect): number => {
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.max(0, Math.round(r.y)); y < Math.min(gray.height, r.y + r.h); y++) {
+    for (let x = Math.max(0, Math.round(r.x)); x < Math.min(gray.width, r.x + r.w); x++) {
+      sum += 255 - gray.data[y * gray.width + x];
+      count++;
+    }
+  }
+  return count ? sum / count : 0;
+};
+
+// รอยกากบาทที่ลากเลยขอบช่องทำให้กรอบช่องนั้นถูกตัดทิ้ง เติมช่องที่หายไปหนึ่งช่องจากระยะห่างของช่องอื่น
+const fillMissingBox = (group: Rect[], optionCount: number, pitch: number, gray: GrayImage): Rect[] => {
+  if (group.length !== optionCount - 1 || isTrueFalse(group.length, optionCount)) return group;
+  const w = median(group.map(r => r.w));
+  const h = median(group.map(r => r.h));
+  const y = median(group.map(r => r.y));
+  const at = (cx: number): Rect => ({ x: cx - w / 2, y, w, h });
+
+  for (let i = 1; i < group.length; i++) {
+    if (centerX(group[i]) - centerX(group[i - 1]) > pitch * 1.5) {
+      return [...group.slice(0, i), at((centerX(group[i - 1]) + centerX(group[i])) / 2), ...group.slice(i)];
+    }
+  }
+  const before = at(centerX(group[0]) - pitch);
+  const after = at(centerX(group[group.length - 1]) + pitch);
+  if (before.x < 0) return [...group, after];
+  if (after.x + w > gray.width) return [before, ...group];
+  // ช่องที่หายไปคือช่องที่มีรอยมาร์ค ดูว่าฝั่งไหนมีหมึกมากกว่า
+  return inkAt(gray, before) > inkAt(gray, after) ? [before, ...group] : [...group, after];
+};
+
+// ข้อถูก/ผิดมีสองช่อง แยกจากข้อปรนัยได้เมื่อข้อปรนัยมีตัวเลือกตั้งแต่ 4 ตัวขึ้นไป
+const isTrueFalse = (size: number, optionCount: number) => size === 2 && optionCount >= 4;
+
+// แบ่งช่องในแถวเดียวกันเป็นข้อ ๆ (กระดาษหลายคอลัมน์มีหลายข้อในแถวเดียว)
+const splitQuestions = (rows: Rect[][], optionCount: number, pitch: number, gray: GrayImage): Rect[][] => {
+  const questions: Rect[][] = [];
+  for (const row of rows) {
+    let group: Rect[] = [];
+    const flush = () => {
+      const filled = fillMissingBox(group, optionCount, pitch, gray);
+      if (filled.length === optionCount || isTrueFalse(filled.length, optionCount)) questions.push(filled);
+      group = [];
+    };
+    for (const r of row) {
+      if (group.length > 0 && centerX(r) - centerX(group[group.length - 1]) > pitch * 2.5) flush();
+      group.push(r);
+    }
+    flush();
+  }
+  return questions;
+};
+
+// เรียงเลขข้อจากบนลงล่างทีละคอลัมน์ (คอลัมน์ซ้ายก่อน)
+const orderQuestions = (questions: Rect[][], pitch: number): Rect[][] => {
+  const bands: Rect[][][] = [];
+  for (const q of [...questions].sort((a, b) => a[0].x - b[0].x)) {
+    const band = bands.find(b => Math.abs(b[0][0].x - q[0].x) <= pitch * 1.5);
+    if (band) band.push(q);
+    else bands.push([q]);
+  }
+  return bands.flatMap(band => band.sort((a, b) => a[0].y - b[0].y));
+};
+
+export const detectMasterLayout = (
+  ctx: Canvas2D,
+  cw: number,
+  ch: number,
+  questionCount: number,
+  options: LayoutDetectionOptions = {}
+): LayoutDetection => {
+  const { optionCount = DEFAULT_OPTION_COUNT, firstQuestion = 1, page } = options;
+  const gray = toGray(ctx.getImageData(0, 0, cw, ch), WORK_SIZE);
+  const outlines = findBoxOutlines(gray);
+  if (outlines.length < 2) {
+    throw new Error("ไม่พบช่องคำตอบบนกระดาษ กรุณาถ่ายภาพให้ชัดและเห็นกรอบช่องครบ");
+  }
+
+  const medH = median(outlines.map(r => r.h));
+  const medW = median(outlines.map(r => r.w));
+  const rows = groupRows(outlines, medH * 0.6);
+  // ระยะห่างระหว่างช่องที่อยู่ติดกันในข้อเดียวกัน
+  const gaps = rows.flatMap(row => row.slice(1).map((r, i) => centerX(r) - centerX(row[i]))).filter(g => g < medW * 4);
+  const pitch = median(gaps) || medW * 1.5;
+
+  const questions = orderQuestions(splitQuestions(rows, optionCount, pitch, gray), pitch);
+  if (questions.length === 0) {
+    throw new Error("ไม่พบช่องคำตอบบนกระดาษ กรุณาถ่ายภาพให้ชัดและเห็นกรอบช่องครบ");
+  }
+
+  const toPercent = (r: Rect): BoxRegion => ({
+    x: (r.x / gray.width) * 100,
+    y: (r.y / gray.height) * 100,
+    w: (r.w / gray.width) * 100,
+    h: (r.h / gray.height) * 100
+  });
+
+  // Otsu นับค่าที่เท่ากับ threshold เป็นหมึก ส่วน checkInkDensity นับเฉพาะค่าที่น้อยกว่า
+  const threshold = otsuThreshold(histogram(gray.data)) + 1;
+  const boxes: BoxCoordinate[] = [];
+  const correctAnswers: Record<number, string> = {};
+  const unmarkedQuestions: number[] = [];
+
+  const pageQuestions = questions.slice(0, Math.max(0, questionCount - firstQuestion + 1));
+  pageQuestions.forEach((rects, i) => {
+    const questionNumber = firstQuestion + i;
+    const labels = isTrueFalse(rects.length, optionCount) ? TRUE_FALSE_LABELS : OPTION_LABELS;
+    const choices = rects.map((r, j) => ({
+      id: `box-${boxes.length + j}`,
+      questionNumber,
+      optionLabel: labels[j],
+      ...toPercent(r),
+      ...(page ? { page } : {})
+    }));
+    boxes.push(...choices);
+
+    const densities = choices.map(b => checkInkDensity(ctx, b, cw, ch, threshold));
+    const order = densities.map((d, j) => j).sort((a, b) => densities[b] - densities[a]);
+    const [best, second] = order;
+    if (densities[best] >= MIN_MARK_DENSITY && densities[best] - densities[second] >= MIN_MARK_GAP) {
+      correctAnswers[questionNumber] = choices[best].optionLabel;
+    } else {
+      unmarkedQuestions.push(questionNumber);
+    }
+  });
+
+  return { boxes, correctAnswers, idGrid: [], versionBoxes: [], unmarkedQuestions, lastQuestion: firstQuestion + pageQuestions.length - 1 };
+};
+
+// เทียบเฉลยจากสองแหล่ง (ในเครื่องกับ AI) คืนเลขข้อที่ไม่ตรงกัน
+export const compareAnswerKeys = (
+  a: Record<number, string>,
+  b: Record<number, string>,
+  questionCount: number
+): number[] => {
+  const mismatches: number[] = [];
+  for (let q = 1; q <= questionCount; q++) {
+    if ((a[q] ?? '') !== (b[q] ?? '')) mismatches.push(q);
+  }
+  return mismatches;
+};
@@ -0,0 +1,120 @@
+import { BoxCoordinate } from "../types.ts";
+import { sortOptionLabels } from "./answerKey.ts";
+
+// เครื่องมือแก้ไขตำแหน่งช่องคำตอบบนภาพต้นแบบ (พิกัดเป็น % ของภาพ)
+
+const MAX_LISTED = 5;
+// ช่องที่ทับกันเกินสัดส่วนนี้ของช่องที่เล็กกว่าถือว่าซ้อนกัน
+const OVERLAP_RATIO = 0.2;
+
+const listSome = (items: string[]) =>
+  items.length > MAX_LISTED ? `${items.slice(0, MAX_LISTED).join(', ')} และอีก ${items.length - MAX_LISTED} รายการ` : items.join(', ');
+
+const overlapArea = (a: BoxCoordinate, b: BoxCoordinate) => {
+  if ((a.page ?? 1) !== (b.page ?? 1)) return 0;
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+// ตรวจความถูกต้องของตำแหน่งช่องก่อนเริ่มตรวจ คืนรายการคำเตือนภาษาไทย
+export const validateLayout = (boxes: BoxCoordinate[], questionCount: number): string[] => {
+  const issues: string[] = [];
+  const byQuestion = new Map<number, BoxCoordinate[]>();
+  boxes.forEach(b => byQuestion.set(b.questionNumber, [...(byQuestion.get(b.questionNumber) ?? []), b]));
+
+  const missing: string[] = [];
+  const single: string[] = [];
+  for (let q = 1; q <= questionCount; q++) {
+    const count = byQuestion.get(q)?.length ?? 0;
+    if (count === 0) missing.push(String(q));
+    else if (count === 1) single.push(String(q));
+  }
+  if (missing.length > 0) issues.push(`ไม่มีช่องของข้อ ${listSome(missing)}`);
+  if (single.length > 0) issues.push(`ข้อ ${listSome(single)} มีช่องตัวเลือกเพียงช่องเดียว`);
+
+  const extra = Array.from(byQuestion.keys()).filter(q => q < 1 || q > questionCount).sort((a, b) => a - b);
+  if (extra.length > 0) issues.push(`มีช่องของข้อ ${listSome(extra.map(String))} ซึ่งเกินจำนวนข้อสอบ`);
+
+  const duplicates: string[] = [];
+  byQuestion.forEach((list, q) => {
+    const seen = new Set<string>();
+    list.forEach(b => {
+      if (seen.has(b.optionLabel)) duplicates.push(`ข้อ ${q} ${b.optionLabel}`);
+      seen.add(b.optionLabel);
+    });
+  });
+  if (duplicates.length > 0) issues.push(`ตัวเลือกซ้ำ: ${listSome(duplicates)}`);
+
+  const overlaps: string[] = [];
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = boxes[i], b = boxes[j];
+      if (overlapArea(a, b) > OVERLAP_RATIO * Math.min(a.w * a.h, b.w * b.h)) {
+        overlaps.push(`ข้อ ${a.questionNumber} ${a.optionLabel} กับข้อ ${b.questionNumber} ${b.optionLabel}`);
+      }
+    }
+  }
+  if (overlaps.length > 0) issues.push(`ช่องทับกัน: ${listSome(overlaps)}`);
+
+  const outside = boxes.filter(b => b.x < 0 || b.y < 0 || b.x + b.w > 100 || b.y + b.h > 100);
+  if (outside.length > 0) issues.push(`ช่องอยู่นอกภาพ: ${listSome(outside.map(b => `ข้อ ${b.questionNumber} ${b.optionLabel}`))}`);
+
+  return issues;
+};
+
+export const nextBoxId = (boxes: BoxCoordinate[]): string => {
+  const max = boxes.reduce((m, b) => Math.max(m, parseInt(b.id.replace(/\D/g, '')) || 0), -1);
+  return `box-${max + 1}`;
+};
+
+export const moveBoxes = (boxes: BoxCoordinate[], ids: string[], dx: number, dy: number): BoxCoordinate[] =>
+  boxes.map(b => (ids.includes(b.id) ? { ...b, x: b.x + dx, y: b.y + dy } : b));
+
+export const resizeBoxes = (boxes: BoxCoordinate[], ids: string[], dw: number, dh: number): BoxCoordinate[] =>
+  boxes.map(b => (ids.includes(b.id) ? { ...b, w: Math.max(0.2, b.w + dw), h: Math.max(0.2, b.h + dh) } : b));
+
+// ช่องที่อยู่ในคอลัมน์เดียวกับช่องที่เลือก (จุดกึ่งกลางแนวนอนอยู่ในความกว้างของช่องนั้น)
+export const columnOf = (boxes: BoxCoordinate[], box: BoxCoordinate): string[] =>
+  boxes
+    .filter(b => (b.page ?? 1) === (box.page ?? 1) && Math.abs(b.x + b.w / 2 - (box.x + box.w / 2)) <= box.w / 2)
+    .map(b => b.id);
+
+// สร้างช่องของข้อระหว่าง fromQ กับ toQ โดยเฉลี่ยตำแหน่งจากสองข้อนั้น (แทนที่ช่องเดิมของข้อที่อยู่ระหว่างกลาง)
+export const gridFill = (boxes: BoxCoordinate[], fromQ: number, toQ: number): BoxCoordinate[] => {
+  if (toQ - fromQ < 2) throw new Error("ข้อเริ่มต้นและข้อสุดท้ายต้องห่างกันอย่างน้อย 2 ข้อ");
+  const sortByLabel = (list: BoxCoordinate[]) => {
+    const order = sortOptionLabels(list.map(b => b.optionLabel));
+    return [...list].sort((a, b) => order.indexOf(a.optionLabel) - order.indexOf(b.optionLabel));
+  };
+  const first = sortByLabel(boxes.filter(b => b.questionNumber === fromQ));
+  const last = sortByLabel(boxes.filter(b => b.questionNumber === toQ));
+  if (first.length === 0 || last.length === 0) throw new Error(`ต้องมีช่องของข้อ ${fromQ} และข้อ ${toQ} ก่อน`);
+  if (first.map(b => b.optionLabel).join() !== last.map(b => b.optionLabel).join()) {
+    throw new Error(`ข้อ ${fromQ} และข้อ ${toQ} ต้องมีตัวเลือกเหมือนกัน`);
+  }
+  if ((first[0].page ?? 1) !== (last[0].page ?? 1)) {
+    throw new Error(`ข้อ ${fromQ} และข้อ ${toQ} ต้องอยู่ในหน้าเดียวกัน`);
+  }
+
+  const kept = boxes.filter(b => b.questionNumber <= fromQ || b.questionNumber >= toQ);
+  const filled: BoxCoordinate[] = [];
+  let id = parseInt(nextBoxId(kept).slice(4));
+  for (let q = fromQ + 1; q < toQ; q++) {
+    const t = (q - fromQ) / (toQ - fromQ);
+    first.forEach((a, i) => {
+      const b = last[i];
+      filled.push({
+        id: `box-${id++}`,
+        questionNumber: q,
+        optionLabel: a.optionLabel,
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        w: a.w + (b.w - a.w) * t,
+        h: a.h + (b.h - a.h) * t,
+        page: a.page
+      });
+    });
+  }
+  return [...kept, ...filled];
+};
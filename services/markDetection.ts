@@ -0,0 +1,186 @@
+import { BoxRegion, MarkClass } from "../types.ts";
+import { Canvas2D, checkInkDensity, histogram, otsuThreshold, sampleBoxImage, sampleBoxPixels, toGray } from "./imageUtils.ts";
+
+// ส่วนต่างความหนาแน่นหมึกขั้นต่ำ (เทียบกับช่องว่าง) ที่นับว่าเป็นรอยมาร์ค
+const MIN_EXCESS = 0.08;
+// ช่องที่มีหมึกไม่ถึงสัดส่วนนี้ของช่องที่เข้มที่สุดในข้อเดียวกัน ไม่นับว่าถูกมาร์ค
+const RELATIVE_MARK_RATIO = 0.5;
+// ช่องที่หมึกเกินค่านี้และหมึกกระจายนอกแนวทแยง = ขีดฆ่า/ระบายทับ ไม่ใช่กากบาท
+const CANCEL_EXCESS = 0.3;
+const CANCEL_OFF_DIAGONAL = 0.3;
+// หมึกเกินค่านี้ถือว่าระบายทึบทั้งช่อง (ยกเลิก) ไม่ว่ารูปทรงใด
+const BLACKOUT_EXCESS = 0.7;
+// ความกว้างของแนวทแยงที่เส้นกากบาทผ่าน (สัดส่วนของช่อง)
+const DIAGONAL_BAND = 0.2;
+// พิกเซลที่สว่างกว่าหมึกแต่มืดกว่าระดับนี้ (ระหว่างหมึกกับกระดาษ) นับเป็นรอยจาง
+const FAINT_LEVEL = 0.6;
+const MIN_FAINT = 0.12;
+// ข้อที่มีรอยขีดฆ่าหรือรอยลบ ลดความมั่นใจลงเล็กน้อยแม้จะเลือกคำตอบได้
+const CORRECTION_PENALTY = 0.85;
+const FAINT_ONLY_CONFIDENCE = 0.5;
+const CANCELLED_ONLY_CONFIDENCE = 0.25;
+
+export const MARK_CLASS_LABELS: Record<MarkClass, string> = {
+  empty: 'ว่าง',
+  faint: 'รอยจาง/รอยลบ',
+  mark: 'กากบาท',
+  cancelled: 'ขีดฆ่า/ยกเลิก'
+};
+
+// 'cross' = ช่องคำตอบที่ทำเครื่องหมายกากบาท (แยกกากบาทกับการขีดฆ่า/ระบายทับ)
+// 'bubble' = ช่องระบายทึบ เช่น เลขประจำตัวและชุดข้อสอบ ช่องที่ระบายเต็มคือคำตอบ ไม่ใช่การยกเลิก
+export type ReadMode = 'cross' | 'bubble';
+
+export interface SheetCalibration {
+  paperLevel: number; // ความสว่างพื้นกระดาษ (0-255)
+  inkThreshold: number; // พิกเซลที่มืดกว่าค่านี้นับเป็นหมึก
+  emptyBaseline: number; // ความหนาแน่นหมึกของช่องว่างโดยทั่วไป
+}
+
+export interface QuestionRead {
+  answer: string;
+  markedLabels: string[];
+  densities: Record<string, number>;
+  markStates: Record<string, MarkClass>;
+  confidence: number; // 0-1
+  isWarning: boolean;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+const medianOfHistogram = (hist: Uint32Array): number => {
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += hist[i];
+  let acc = 0;
+  for (let i = 0; i < 256; i++) {
+    acc += hist[i];
+    if (acc * 2 >= total) return i;
+  }
+  return 255;
+};
+
+// ปรับเทียบค่าต่อแผ่น: วัดความสว่างกระดาษ หา threshold หมึกด้วย Otsu และค่าพื้นฐานของช่องว่าง
+export const calibrateSheet = (ctx: Canvas2D, boxes: BoxRegion[], cw: number, ch: number): SheetCalibration => {
+  const sheet = toGray(ctx.getImageData(0, 0, cw, ch), 400);
+  const paperLevel = Math.max(1, medianOfHistogram(histogram(sheet.data)));
+
+  const boxHist = new Uint32Array(256);
+  boxes.forEach(box => {
+    const data = sampleBoxPixels(ctx, box, cw, ch);
+    if (!data) return;
+    for (let i = 0; i < data.length; i += 4) {
+      boxHist[Math.round((data[i] + data[i + 1] + data[i + 2]) / 3)]++;
+    }
+  });
+
+  // จำกัดช่วงไว้ เผื่อภาพไม่มีรอยหมึกเลยจน Otsu แบ่งเฉพาะสัญญาณรบกวนของกระดาษ
+  const inkThreshold = Math.max(paperLevel * 0.35, Math.min(paperLevel * 0.85, otsuThreshold(boxHist)));
+  const densities = boxes.map(box => checkInkDensity(ctx, box, cw, ch, inkThreshold));
+  // ช่องส่วนใหญ่ในแต่ละข้อว่าง จึงใช้ควอไทล์ล่างเป็นค่าพื้นฐาน
+  const emptyBaseline = percentile(densities, 0.25);
+
+  return { paperLevel, inkThreshold, emptyBaseline };
+};
+
+interface BoxAnalysis {
+  density: number; // สัดส่วนพิกเซลหมึก
+  faint: number; // สัดส่วนพิกเซลที่เป็นรอยจาง
+  offDiagonal: number; // สัดส่วนหมึกในพื้นที่นอกแนวทแยงของกากบาท
+}
+
+const analyzeBox = (ctx: Canvas2D, box: BoxRegion, cw: number, ch: number, calibration: SheetCalibration): BoxAnalysis => {
+  const image = sampleBoxImage(ctx, box, cw, ch);
+  if (!image || image.width === 0 || image.height === 0) return { density: 0, faint: 0, offDiagonal: 0 };
+  const { width, height, data } = image;
+  const faintLevel = calibration.inkThreshold + (calibration.paperLevel - calibration.inkThreshold) * FAINT_LEVEL;
+
+  let ink = 0, faint = 0, off = 0, offInk = 0;
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const isInk = brightness < calibration.inkThreshold;
+      if (isInk) ink++;
+      else if (brightness < faintLevel) faint++;
+      const u = (x + 0.5) / width;
+      if (Math.abs(u - v) > DIAGONAL_BAND && Math.abs(u + v - 1) > DIAGONAL_BAND) {
+        off++;
+        if (isInk) offInk++;
+      }
+    }
+  }
+  const total = width * height;
+  return { density: ink / total, faint: faint / total, offDiagonal: off ? offInk / off : 0 };
+};
+
+// จัดประเภทรอยในช่องเดียว (ยังไม่เทียบความเข้มกับช่องอื่นในข้อเดียวกัน)
+// faintExcess วัดเทียบกับช่องที่จางที่สุดในข้อ เพื่อไม่ให้เงาบนกระดาษถูกนับเป็นรอยลบ
+const classifyBox = (excess: number, faintExcess: number, analysis: BoxAnalysis, mode: ReadMode): MarkClass => {
+  if (excess >= MIN_EXCESS) {
+    if (mode === 'bubble') return 'mark';
+    const cancelled = excess >= BLACKOUT_EXCESS || (excess >= CANCEL_EXCESS && analysis.offDiagonal >= CANCEL_OFF_DIAGONAL);
+    return cancelled ? 'cancelled' : 'mark';
+  }
+  return faintExcess >= MIN_FAINT ? 'faint' : 'empty';
+};
+
+// จัดประเภทรอยทุกช่องแล้วเลือกคำตอบที่ตั้งใจ: ตัดช่องที่ขีดฆ่าออก และถือว่ารอยที่จางกว่ารอยเด่นมากเป็นรอยลบ
+export const readQuestion = (
+  ctx: Canvas2D,
+  choices: (BoxRegion & { optionLabel: string })[],
+  cw: number,
+  ch: number,
+  calibration: SheetCalibration,
+  mode: ReadMode = 'cross'
+): QuestionRead => {
+  const densities: Record<string, number> = {};
+  const markStates: Record<string, MarkClass> = {};
+  const analyses = choices.map(c => analyzeBox(ctx, c, cw, ch, calibration));
+  const faintFloor = Math.min(...analyses.map(a => a.faint));
+  const boxes = choices.map((c, i) => {
+    const analysis = analyses[i];
+    const value = Math.max(0, analysis.density - calibration.emptyBaseline);
+    densities[c.optionLabel] = analysis.density;
+    markStates[c.optionLabel] = classifyBox(value, analysis.faint - faintFloor, analysis, mode);
+    return { label: c.optionLabel, value };
+  }).sort((a, b) => b.value - a.value);
+
+  const open = boxes.filter(b => markStates[b.label] !== 'cancelled');
+  const top = open.find(b => markStates[b.label] === 'mark')?.value ?? 0;
+  open.forEach(b => {
+    if (markStates[b.label] === 'mark' && b.value < top * RELATIVE_MARK_RATIO) markStates[b.label] = 'faint';
+  });
+  const marked = open.filter(b => markStates[b.label] === 'mark');
+  const hasCorrection = boxes.some(b => markStates[b.label] === 'cancelled' || markStates[b.label] === 'faint');
+
+  if (marked.length === 0) {
+    // ขีดฆ่าทุกช่องที่เคยเลือก = ไม่ตอบ แต่ให้ครูตรวจซ้ำ
+    if (open.length < boxes.length) {
+      return { answer: '', markedLabels: [], densities, markStates, confidence: CANCELLED_ONLY_CONFIDENCE, isWarning: true };
+    }
+    const strongest = open[0]?.value ?? 0;
+    const confidence = clamp01(1 - strongest / MIN_EXCESS);
+    return {
+      answer: '', markedLabels: [], densities, markStates,
+      confidence: hasCorrection ? Math.min(confidence, FAINT_ONLY_CONFIDENCE) : confidence,
+      isWarning: false
+    };
+  }
+
+  const second = open.find(b => b.label !== marked[0].label)?.value ?? 0;
+  const separation = (top - second) / top;
+
+  if (marked.length > 1) {
+    return { answer: '', markedLabels: marked.map(m => m.label), densities, markStates, confidence: clamp01(separation), isWarning: true };
+  }
+  const strength = clamp01(top / (MIN_EXCESS * 2));
+  const confidence = clamp01(separation * strength) * (hasCorrection ? CORRECTION_PENALTY : 1);
+  return { answer: marked[0].label, markedLabels: [marked[0].label], densities, markStates, confidence, isWarning: false };
+};
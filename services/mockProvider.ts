@@ -0,0 +1,60 @@
+import { VisionProvider, VisionRequest } from "./visionProvider.ts";
+
+// ข้อมูลจำลองสำหรับพัฒนาและทดสอบขั้นตอนที่ใช้ AI โดยไม่ต้องต่อเครือข่าย
+// ใช้คำตอบที่บันทึกไว้ในการตั้งค่าก่อน ถ้าไม่มีจึงสร้างคำตอบตัวอย่างจากข้อมูลประกอบของคำขอ
+
+const ROWS_PER_COLUMN = 25;
+
+// ผังตัวอย่าง: ข้อเรียงเป็นคอลัมน์ละ 25 ข้อ เฉลยวนตามลำดับตัวเลือก
+const sampleMaster = (context: Record<string, unknown>) => {
+  const questionCount = Number(context.questionCount) || 0;
+  const labels = (context.labels as string[] | undefined) ?? [];
+  const page = Number(context.page) || 1;
+  const pageCount = Number(context.pageCount) || 1;
+  const perPage = Math.ceil(questionCount / pageCount);
+  const first = (page - 1) * perPage + 1;
+  const last = Math.min(questionCount, page * perPage);
+
+  const boxes = [];
+  for (let q = first; q <= last; q++) {
+    const row = (q - first) % ROWS_PER_COLUMN;
+    const column = Math.floor((q - first) / ROWS_PER_COLUMN);
+    for (let i = 0; i < labels.length; i++) {
+      boxes.push({
+        questionNumber: q,
+        optionLabel: labels[i],
+        x: 12 + column * 45 + i * 6,
+        y: 12 + row * 3.2,
+        w: 4,
+        h: 2.2,
+        isMarked: i === (q - 1) % labels.length
+      });
+    }
+  }
+  return { boxes, idGrid: [], versionBoxes: [] };
+};
+
+const sampleResponse = (request: VisionRequest): unknown => {
+  const context = request.context ?? {};
+  switch (request.task) {
+    case 'master':
+      return sampleMaster(context);
+    case 'recheck':
+      // ไม่รู้คำตอบจริง จึงตอบว่าไม่ชัดเพื่อไม่ให้เปลี่ยนผลของเครื่อง
+      return { answers: ((context.questions as number[] | undefined) ?? []).map(q => ({ questionNumber: q, answer: '', unclear: true })) };
+    case 'written':
+      return {
+        scores: Array.from({ length: Number(context.count) || 0 }, (_, i) => ({
+          answerNumber: i + 1, score: 0, reason: 'ข้อมูลจำลอง', transcript: ''
+        }))
+      };
+  }
+};
+
+export const mockProvider: VisionProvider = {
+  generateJson: async (request, settings) => {
+    const recorded = settings.mockResponses?.[request.task];
+    // คัดลอกเพื่อไม่ให้ผู้เรียกแก้ไขข้อมูลที่บันทึกไว้
+    return structuredClone(recorded ?? sampleResponse(request));
+  }
+};
@@ -0,0 +1,45 @@
+import { extractJson, httpError, modelOf, VisionProvider } from "./visionProvider.ts";
+
+// เซิร์ฟเวอร์ที่รองรับ OpenAI Chat Completions API เช่น OpenAI, Ollama, LM Studio, vLLM
+
+export const openAiProvider: VisionProvider = {
+  generateJson: async (request, settings) => {
+    const baseUrl = settings.baseUrl?.trim().replace(/\/+$/, '');
+    if (!baseUrl) throw new Error("กรุณาระบุที่อยู่เซิร์ฟเวอร์ (Base URL) ในช่องตั้งค่า");
+    const content = request.parts.map(part =>
+      'text' in part ? { type: 'text', text: part.text } : { type: 'image_url', image_url: { url: part.imageUrl } }
+    );
+
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey.trim() ? { Authorization: `Bearer ${settings.apiKey.trim()}` } : {})
+        },
+        body: JSON.stringify({
+          model: modelOf(settings),
+          messages: [
+            { role: 'system', content: request.systemInstruction },
+            { role: 'user', content }
+          ],
+          response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.schema } }
+        })
+      });
+    } catch (err: any) {
+      throw new Error(`เชื่อมต่อเซิร์ฟเวอร์ ${baseUrl} ไม่ได้ (${err.message})`);
+    }
+
+    if (!res.ok) {
+      const retryAfter = parseFloat(res.headers.get('retry-after') ?? '');
+      const detail = (await res.text().catch(() => '')).slice(0, 200);
+      throw httpError(res.status, `HTTP ${res.status} ${detail}`.trim(), Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined);
+    }
+
+    const data = await res.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) throw new Error("AI ไม่ตอบสนอง");
+    return JSON.parse(extractJson(text));
+  }
+};
@@ -0,0 +1,31 @@
+import { MasterConfig, MasterPage } from "../types.ts";
+
+// ข้อสอบหลายหน้า: หน้าแรกเก็บในฟิลด์เดิมของ MasterConfig หน้าถัดไปเก็บใน extraPages
+
+export const masterPages = (master: MasterConfig): MasterPage[] => [
+  { imageUrl: master.imageUrl, imageWidth: master.imageWidth, imageHeight: master.imageHeight, registration: master.registration },
+  ...(master.extraPages ?? [])
+];
+
+export const pageCount = (master: MasterConfig): number => 1 + (master.extraPages?.length ?? 0);
+
+export const onPage = <T extends { page?: number }>(items: T[], page: number): T[] =>
+  items.filter(item => (item.page ?? 1) === page);
+
+// แบ่งไฟล์ที่อัปโหลดเป็นชุดละ pageCount หน้า (เรียงตามชื่อไฟล์) ไฟล์ที่เหลือไม่ครบชุดคืนแยกไว้
+export const groupPages = <T extends { name: string }>(files: T[], count: number): { groups: T[][]; leftover: T[] } => {
+  const sorted = count > 1 ? [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })) : files;
+  const groups: T[][] = [];
+  for (let i = 0; i + count <= sorted.length; i += count) groups.push(sorted.slice(i, i + count));
+  return { groups, leftover: sorted.slice(groups.length * count) };
+};
+
+export type PageLayout = Pick<MasterConfig, 'boxes' | 'correctAnswers' | 'idGrid' | 'versionBoxes'>;
+
+// รวมตำแหน่งช่องที่หาได้จากแต่ละหน้าเป็นต้นแบบเดียว (ตั้ง id ใหม่ไม่ให้ซ้ำกันข้ามหน้า)
+export const mergePageLayouts = (layouts: PageLayout[]): PageLayout => ({
+  boxes: layouts.flatMap(l => l.boxes).map((b, i) => ({ ...b, id: `box-${i}` })),
+  correctAnswers: Object.assign({}, ...layouts.map(l => l.correctAnswers)),
+  idGrid: layouts.flatMap(l => l.idGrid ?? []).map((b, i) => ({ ...b, id: `id-${i}` })),
+  versionBoxes: layouts.flatMap(l => l.versionBoxes ?? []).map((b, i) => ({ ...b, id: `version-${i}` }))
+});
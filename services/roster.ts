@@ -0,0 +1,150 @@
+import { GradingResult, RosterEntry } from "../types.ts";
+import { readXlsxFirstSheet } from "./xlsx.ts";
+import { createId } from "./storage.ts";
+
+// นำเข้ารายชื่อนักเรียน (CSV / Excel) และจับคู่กระดาษคำตอบกับรายชื่อ
+
+const HEADER_PATTERNS: Record<keyof Omit<RosterEntry, 'id'>, RegExp> = {
+  number: /^(เลขที่|ที่|no\.?|number)$/i,
+  studentCode: /(เลขประจำตัว|รหัส|student\s*(id|code)|^id$|^code$)/i,
+  name: /(ชื่อ|name)/i,
+  classroom: /(ชั้น|ห้อง|class|room)/i
+};
+
+const SURNAME_PATTERN = /^(นามสกุล|surname|last\s*name)$/i;
+
+const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row);
+      row = []; cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const rowsToRoster = (rows: string[][]): RosterEntry[] => {
+  const cleaned = rows.map(r => r.map(c => (c ?? '').toString().trim())).filter(r => r.some(c => c !== ''));
+  if (cleaned.length === 0) return [];
+
+  const header = cleaned[0];
+  const columns: Partial<Record<keyof typeof HEADER_PATTERNS, number>> = {};
+  let surnameColumn = -1;
+  header.forEach((h, i) => {
+    if (SURNAME_PATTERN.test(h)) {
+      surnameColumn = i;
+      return;
+    }
+    (Object.keys(HEADER_PATTERNS) as (keyof typeof HEADER_PATTERNS)[]).forEach(key => {
+      if (columns[key] === undefined && HEADER_PATTERNS[key].test(h)) columns[key] = i;
+    });
+  });
+
+  const hasHeader = columns.name !== undefined;
+  // ไม่มีหัวตาราง: ถือว่าเรียงคอลัมน์ เลขที่, เลขประจำตัว, ชื่อ, ชั้น/ห้อง
+  const map = hasHeader ? columns : { number: 0, studentCode: 1, name: 2, classroom: 3 };
+  const body = hasHeader ? cleaned.slice(1) : cleaned;
+
+  return body
+    .map((r, i) => {
+      const get = (col?: number) => (col !== undefined ? r[col] || '' : '');
+      const surname = surnameColumn >= 0 ? r[surnameColumn] || '' : '';
+      return {
+        id: createId(),
+        number: get(map.number) || String(i + 1),
+        studentCode: get(map.studentCode),
+        name: [get(map.name), surname].filter(Boolean).join(' '),
+        classroom: get(map.classroom)
+      };
+    })
+    .filter(e => e.name || e.studentCode);
+};
+
+export const parseRosterFile = async (file: File): Promise<RosterEntry[]> => {
+  const isExcel = /\.xlsx$/i.test(file.name);
+  const rows = isExcel
+    ? await readXlsxFirstSheet(new Uint8Array(await file.arrayBuffer()))
+    : parseCsv(await file.text());
+  const roster = rowsToRoster(rows);
+  if (roster.length === 0) throw new Error("ไม่พบรายชื่อนักเรียนในไฟล์");
+  return roster;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s_\-.]+/g, '');
+
+export const findByStudentCode = (code: string, roster: RosterEntry[]): RosterEntry | undefined => {
+  const target = code.replace(/^0+/, '');
+  if (!target) return undefined;
+  return roster.find(e => e.studentCode && e.studentCode.replace(/^0+/, '') === target);
+};
+
+// จับคู่จากชื่อไฟล์ภาพ เช่น "12345.jpg", "เลขที่ 7.jpg" หรือ "สมชาย ใจดี.jpg"
+export const matchByFileName = (fileName: string, roster: RosterEntry[]): RosterEntry | undefined => {
+  const base = fileName.replace(/\.[^.]+$/, '');
+  const digits = base.match(/\d+/g) || [];
+
+  for (const d of digits) {
+    const byCode = findByStudentCode(d, roster);
+    if (byCode) return byCode;
+  }
+
+  const normalized = normalize(base);
+  const byName = roster.find(e => e.name && normalized.includes(normalize(e.name)));
+  if (byName) return byName;
+
+  if (digits.length === 1) {
+    return roster.find(e => e.number.replace(/^0+/, '') === digits[0].replace(/^0+/, ''));
+  }
+  return undefined;
+};
+
+// เก็บเลขที่และชื่อเดิมของกระดาษไว้ครั้งแรกที่จับคู่ เพื่อคืนค่าเมื่อยกเลิกหรือเปลี่ยนการจับคู่
+export const applyRosterEntry = (result: GradingResult, entry: RosterEntry): GradingResult => ({
+  ...result,
+  rosterId: entry.id,
+  paperStudentId: result.paperStudentId ?? result.studentId,
+  paperStudentName: result.paperStudentName ?? result.studentName,
+  studentId: entry.number,
+  studentName: entry.name
+});
+
+export const clearRosterEntry = (result: GradingResult): GradingResult => {
+  if (!result.rosterId) return result;
+  const { paperStudentId, paperStudentName, ...rest } = result;
+  return {
+    ...rest,
+    rosterId: undefined,
+    studentId: paperStudentId ?? result.studentId,
+    studentName: paperStudentName ?? result.studentName
+  };
+};
+
+export const findAbsentees = (roster: RosterEntry[], results: GradingResult[]): RosterEntry[] => {
+  const graded = new Set(results.map(r => r.rosterId).filter(Boolean));
+  return roster.filter(e => !graded.has(e.id));
+};
@@ -0,0 +1,85 @@
+import { ImageQuality, MasterConfig } from "../types.ts";
+import { alignToMaster } from "./alignment.ts";
+import { PageRead, readAlignedPage } from "./grader.ts";
+import { masterPages } from "./pages.ts";
+import { assessQuality, measureQuality, mergeQuality } from "./imageQuality.ts";
+
+// อ่านกระดาษคำตอบของนักเรียนหนึ่งคน (ครบทุกหน้า) ด้วย OffscreenCanvas ใช้ได้ทั้งใน Web Worker และบนหน้าเว็บ
+
+// ขนาดและคุณภาพของภาพที่เก็บไว้ตรวจทานภายหลัง
+const PREVIEW_MAX_DIM = 1600;
+const PREVIEW_QUALITY = 0.7;
+
+export type SheetSource = Blob | ImageData;
+
+// ภาพที่คุณภาพไม่ผ่านเกณฑ์จะไม่ถูกอ่านค่าหมึก (pages และ pageImages ว่าง)
+export interface SubmissionRead {
+  pages: PageRead[];
+  pageImages: string[]; // JPEG ของภาพที่จัดแนวแล้ว เรียงตามหน้า
+  alignmentConfidence: number; // ต่ำสุดของทุกหน้า
+  quality: ImageQuality;
+}
+
+const decodeImage = async (source: SheetSource): Promise<ImageData> => {
+  if (source instanceof ImageData) return source;
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(source);
+  } catch {
+    throw new Error("ไม่สามารถเปิดไฟล์ภาพได้ (ไฟล์เสียหรือไม่ใช่รูปภาพ)");
+  }
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("แปลงภาพเพื่อเก็บไว้ตรวจทานไม่สำเร็จ"));
+    reader.readAsDataURL(blob);
+  });
+
+const toJpeg = async (canvas: OffscreenCanvas): Promise<string> => {
+  const scale = Math.min(1, PREVIEW_MAX_DIM / Math.max(canvas.width, canvas.height));
+  let out = canvas;
+  if (scale < 1) {
+    out = new OffscreenCanvas(Math.round(canvas.width * scale), Math.round(canvas.height * scale));
+    out.getContext('2d')!.drawImage(canvas, 0, 0, out.width, out.height);
+  }
+  return blobToDataUrl(await out.convertToBlob({ type: 'image/jpeg', quality: PREVIEW_QUALITY }));
+};
+
+export const readSubmission = async (sources: SheetSource[], master: MasterConfig): Promise<SubmissionRead> => {
+  if (typeof OffscreenCanvas === 'undefined') {
+    throw new Error("เบราว์เซอร์นี้ไม่รองรับการตรวจภาพ กรุณาอัปเดตเบราว์เซอร์");
+  }
+  const pages = masterPages(master);
+  const reads: PageRead[] = [];
+  const pageImages: string[] = [];
+  const qualities: ImageQuality[] = [];
+  let alignmentConfidence = 1;
+
+  for (let i = 0; i < sources.length; i++) {
+    // จัดแนวภาพนักเรียนให้ตรงกับต้นแบบหน้าเดียวกันก่อนอ่านค่าหมึกตามตำแหน่งช่อง
+    const image = await decodeImage(sources[i]);
+    const aligned = alignToMaster(image, pages[i]);
+    const expectRegistration = !!pages[i].registration && pages[i].registration!.method !== 'none';
+    qualities.push(assessQuality(measureQuality(image, aligned.registration), expectRegistration));
+    alignmentConfidence = Math.min(alignmentConfidence, aligned.confidence);
+    // ตรวจคุณภาพก่อนอ่านค่าหมึก หน้าใดไม่ผ่านให้หยุดทันที ไม่ต้องอ่านและให้คะแนนหน้าที่เหลือ
+    if (qualities[i].status === 'fail') {
+      return { pages: [], pageImages: [], alignmentConfidence, quality: mergeQuality(qualities) };
+    }
+    const canvas = new OffscreenCanvas(aligned.image.width, aligned.image.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    ctx.putImageData(aligned.image, 0, 0);
+    reads.push(readAlignedPage(ctx, canvas.width, canvas.height, master, i + 1));
+    pageImages.push(await toJpeg(canvas));
+  }
+
+  return { pages: reads, pageImages, alignmentConfidence, quality: mergeQuality(qualities) };
+};
@@ -0,0 +1,232 @@
+import { BoxCoordinate, IdGridBox, MasterConfig, Point, SheetTemplate, VersionBox } from "../types.ts";
+import { OPTION_LABELS } from "./answerKey.ts";
+import { VERSION_LABELS } from "./versions.ts";
+import { createId } from "./storage.ts";
+import { downloadBlob } from "./exporter.ts";
+
+// สร้างกระดาษคำตอบสำหรับพิมพ์ และแปลงแม่แบบเป็นต้นแบบเฉลย
+
+// หน้า A4 ที่ 150 dpi
+const PAGE_WIDTH = 1240;
+const PAGE_HEIGHT = 1754;
+const MARGIN = 120;
+const FIDUCIAL_SIZE = 40;
+const FIDUCIAL_INSET = 50;
+const MIN_BOX = 12;
+
+export interface SheetSpec {
+  name: string;
+  questionCount: number;
+  optionCount: number;
+  columns: number;
+  idDigits: number;
+  versionCount: number; // 0 = ไม่มีช่องระบายชุดข้อสอบ
+}
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pct = (v: number, size: number) => (v / size) * 100;
+
+// จุดกึ่งกลางของเครื่องหมายที่มุมทั้ง 4 (ซ้ายบน ขวาบน ขวาล่าง ซ้ายล่าง) ใช้จัดแนวภาพนักเรียน
+const fiducialCorners = (): Point[] => {
+  const near = FIDUCIAL_INSET + FIDUCIAL_SIZE / 2;
+  return [
+    { x: near, y: near },
+    { x: PAGE_WIDTH - near, y: near },
+    { x: PAGE_WIDTH - near, y: PAGE_HEIGHT - near },
+    { x: near, y: PAGE_HEIGHT - near }
+  ];
+};
+
+export const generateSheetTemplate = (spec: SheetSpec): SheetTemplate => {
+  const { questionCount, optionCount, columns, idDigits, versionCount } = spec;
+  if (questionCount < 1 || optionCount < 2 || optionCount > OPTION_LABELS.length || columns < 1) {
+    throw new Error("ตั้งค่ากระดาษคำตอบไม่ถูกต้อง");
+  }
+
+  const svg: string[] = [];
+  const text = (x: number, y: number, content: string, size: number, anchor = 'start', weight = 'normal') =>
+    svg.push(`<text x="${x}" y="${y}" font-size="${size}" text-anchor="${anchor}" font-weight="${weight}">${escapeXml(content)}</text>`);
+  const rect = (x: number, y: number, w: number, h: number) =>
+    svg.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="none" stroke="#000" stroke-width="2"/>`);
+
+  fiducialCorners().forEach(p => {
+    const half = FIDUCIAL_SIZE / 2;
+    svg.push(`<rect x="${p.x - half}" y="${p.y - half}" width="${FIDUCIAL_SIZE}" height="${FIDUCIAL_SIZE}" fill="#000"/>`);
+  });
+
+  text(PAGE_WIDTH / 2, 150, `กระดาษคำตอบ ${spec.name}`, 34, 'middle', 'bold');
+  text(MARGIN, 205, 'ชื่อ-นามสกุล ........................................................ เลขที่ .......... ชั้น ..........', 22);
+
+  let blockBottom = 240;
+
+  const versionBoxes: VersionBox[] = [];
+  if (versionCount > 1) {
+    const size = 28;
+    text(MARGIN, 270, 'ชุดข้อสอบ', 22, 'start', 'bold');
+    VERSION_LABELS.slice(0, versionCount).forEach((label, i) => {
+      const x = MARGIN + i * 60;
+      const y = 285;
+      rect(x, y, size, size);
+      text(x + size / 2, y + size + 24, label, 20, 'middle');
+      versionBoxes.push({
+        id: `version-${i}`, label,
+        x: pct(x, PAGE_WIDTH), y: pct(y, PAGE_HEIGHT), w: pct(size, PAGE_WIDTH), h: pct(size, PAGE_HEIGHT)
+      });
+    });
+    blockBottom = Math.max(blockBottom, 345);
+  }
+
+  const idGrid: IdGridBox[] = [];
+  if (idDigits > 0) {
+    const size = 22;
+    const pitch = 32;
+    const x0 = PAGE_WIDTH - MARGIN - idDigits * pitch;
+    text(x0, 270, 'เลขประจำตัวนักเรียน', 22, 'start', 'bold');
+    for (let col = 0; col < idDigits; col++) {
+      const x = x0 + col * pitch;
+      // ช่องเขียนตัวเลขกำกับ (เส้นใต้ ไม่ใช่กรอบ เพื่อไม่ให้สับสนกับช่องระบาย)
+      svg.push(`<line x1="${x}" y1="312" x2="${x + size}" y2="312" stroke="#000" stroke-width="2"/>`);
+      for (let digit = 0; digit <= 9; digit++) {
+        const y = 325 + digit * pitch;
+        rect(x, y, size, size);
+        if (col === 0) text(x - 10, y + size - 4, String(digit), 18, 'end');
+        idGrid.push({
+          id: `id-${idGrid.length}`, column: col + 1, digit,
+          x: pct(x, PAGE_WIDTH), y: pct(y, PAGE_HEIGHT), w: pct(size, PAGE_WIDTH), h: pct(size, PAGE_HEIGHT)
+        });
+      }
+    }
+    blockBottom = Math.max(blockBottom, 325 + 10 * pitch);
+  }
+
+  // พื้นที่ข้อสอบ แบ่งเป็นคอลัมน์ เรียงเลขข้อจากบนลงล่างทีละคอลัมน์
+  const top = blockBottom + 40;
+  const bottom = PAGE_HEIGHT - 130;
+  const rowsPerColumn = Math.ceil(questionCount / columns);
+  const rowPitch = Math.min(48, (bottom - top - 30) / rowsPerColumn);
+  const size = Math.round(Math.min(26, rowPitch * 0.62));
+  if (size < MIN_BOX) {
+    throw new Error("จำนวนข้อมากเกินไปสำหรับกระดาษหนึ่งหน้า กรุณาเพิ่มจำนวนคอลัมน์");
+  }
+  const columnWidth = (PAGE_WIDTH - MARGIN * 2) / columns;
+  const optionPitch = Math.round(size * 1.7);
+  if (65 + optionCount * optionPitch > columnWidth - 10) {
+    throw new Error("คอลัมน์แคบเกินไปสำหรับจำนวนตัวเลือก กรุณาลดจำนวนคอลัมน์");
+  }
+
+  const boxes: BoxCoordinate[] = [];
+  for (let col = 0; col < columns; col++) {
+    const colX = MARGIN + col * columnWidth;
+    OPTION_LABELS.slice(0, optionCount).forEach((label, o) => {
+      text(colX + 65 + o * optionPitch + size / 2, top + 20, label, 20, 'middle', 'bold');
+    });
+  }
+  for (let idx = 0; idx < questionCount; idx++) {
+    const col = Math.floor(idx / rowsPerColumn);
+    const row = idx % rowsPerColumn;
+    const colX = MARGIN + col * columnWidth;
+    const y = Math.round(top + 30 + row * rowPitch + (rowPitch - size) / 2);
+    text(colX + 50, y + size - 4, `${idx + 1}.`, Math.min(20, size), 'end');
+    OPTION_LABELS.slice(0, optionCount).forEach((optionLabel, o) => {
+      const x = colX + 65 + o * optionPitch;
+      rect(x, y, size, size);
+      boxes.push({
+        id: `box-${boxes.length}`, questionNumber: idx + 1, optionLabel,
+        x: pct(x, PAGE_WIDTH), y: pct(y, PAGE_HEIGHT), w: pct(size, PAGE_WIDTH), h: pct(size, PAGE_HEIGHT)
+      });
+    });
+  }
+
+  text(PAGE_WIDTH / 2, PAGE_HEIGHT - 64, 'ใช้ปากกาทำเครื่องหมาย X ให้เต็มช่อง · พิมพ์แบบเต็มหน้า ห้ามย่อหรือขยาย', 16, 'middle');
+
+  const content = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="210mm" height="297mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="Kanit, Tahoma, sans-serif">`,
+    `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#fff"/>`,
+    ...svg,
+    '</svg>'
+  ].join('\n');
+
+  const now = Date.now();
+  return {
+    id: createId(),
+    name: spec.name,
+    questionCount,
+    optionCount,
+    columns,
+    idDigits,
+    boxes,
+    idGrid,
+    versionBoxes,
+    imageUrl: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(content)}`,
+    imageWidth: PAGE_WIDTH,
+    imageHeight: PAGE_HEIGHT,
+    registration: {
+      method: 'fiducial',
+      corners: fiducialCorners().map(p => ({ x: p.x / PAGE_WIDTH, y: p.y / PAGE_HEIGHT })),
+      confidence: 1
+    },
+    source: 'generated',
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// บันทึกตำแหน่งช่องจากภาพต้นแบบที่ตรวจแล้ว เพื่อใช้ซ้ำกับข้อสอบชุดต่อไป
+export const templateFromMaster = (name: string, master: MasterConfig, questionCount: number): SheetTemplate => {
+  const perQuestion = new Map<number, number>();
+  master.boxes.forEach(b => perQuestion.set(b.questionNumber, (perQuestion.get(b.questionNumber) ?? 0) + 1));
+  const now = Date.now();
+  return {
+    id: createId(),
+    name,
+    questionCount,
+    optionCount: Math.max(0, ...perQuestion.values()),
+    idDigits: new Set((master.idGrid ?? []).map(b => b.column)).size,
+    boxes: master.boxes,
+    idGrid: master.idGrid,
+    versionBoxes: master.versionBoxes,
+    imageUrl: master.imageUrl,
+    imageWidth: master.imageWidth ?? 0,
+    imageHeight: master.imageHeight ?? 0,
+    registration: master.registration,
+    extraPages: master.extraPages,
+    source: 'master',
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// ต้นแบบจากแม่แบบยังไม่มีเฉลย ครูพิมพ์เฉลยเองในขั้นตรวจสอบ
+export const masterFromTemplate = (template: SheetTemplate): MasterConfig => ({
+  imageUrl: template.imageUrl,
+  boxes: template.boxes,
+  correctAnswers: {},
+  idGrid: template.idGrid,
+  versionBoxes: template.versionBoxes,
+  imageWidth: template.imageWidth,
+  imageHeight: template.imageHeight,
+  registration: template.registration,
+  extraPages: template.extraPages,
+  templateId: template.id
+});
+
+const svgSource = (template: SheetTemplate): string =>
+  decodeURIComponent(template.imageUrl.slice(template.imageUrl.indexOf(',') + 1));
+
+export const downloadSheetSvg = (template: SheetTemplate) => {
+  downloadBlob(new Blob([svgSource(template)], { type: 'image/svg+xml' }), `กระดาษคำตอบ_${template.name}.svg`);
+};
+
+// เปิดหน้าพิมพ์ของเบราว์เซอร์ (เลือก "บันทึกเป็น PDF" เพื่อได้ไฟล์ PDF)
+export const printSheet = (template: SheetTemplate) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("เบราว์เซอร์บล็อกหน้าต่างพิมพ์ กรุณาอนุญาตป๊อปอัป");
+  win.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeXml(template.name)}</title>
+<style>@page { size: A4; margin: 0; } body { margin: 0; } svg { display: block; width: 210mm; height: 297mm; }</style>
+</head><body>${svgSource(template)}</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+};
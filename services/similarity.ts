@@ -0,0 +1,168 @@
+import { GradingDetail, GradingResult, MasterConfig } from "../types.ts";
+import { baseVersionLabel } from "./versions.ts";
+
+// ตรวจหาคู่นักเรียนที่ตอบผิดเหมือนกันมากผิดปกติ (สงสัยการลอกคำตอบ)
+// เทียบเฉพาะข้อที่ทั้งคู่ตอบผิดหรือเว้นว่าง ความน่าจะเป็นที่จะผิดเหมือนกันในแต่ละข้อมาจากสัดส่วนคำตอบผิดของทั้งห้อง
+// แล้วคำนวณโอกาสที่จะเหมือนกันตั้งแต่จำนวนที่พบขึ้นไปโดยบังเอิญ (การแจกแจงทวินามแบบความน่าจะเป็นไม่เท่ากัน)
+
+const MIN_GROUP_SIZE = 5; // ผู้สอบน้อยกว่านี้ สัดส่วนคำตอบผิดไม่น่าเชื่อถือ
+export const MIN_SHARED_ANSWERS = 3; // เหมือนกันน้อยกว่านี้ไม่นำมารายงาน
+
+export type SimilarityLevel = 'high' | 'watch' | 'none';
+
+export const SIMILARITY_LEVEL_LABELS: Record<SimilarityLevel, string> = {
+  'high': 'น่าสงสัยมาก',
+  'watch': 'ควรตรวจสอบ',
+  'none': 'ไม่ผิดปกติ'
+};
+
+export interface SimilarPair {
+  a: number; // ลำดับใน results
+  b: number;
+  versionLabel: string;
+  bothWrong: number; // ข้อที่ทั้งคู่ตอบผิดหรือเว้นว่าง
+  sameWrong: number; // ผิดด้วยตัวเลือกเดียวกัน
+  sameBlank: number; // เว้นว่างเหมือนกัน
+  expected: number; // จำนวนที่คาดว่าจะเหมือนกันโดยบังเอิญ
+  probability: number; // โอกาสที่จะเหมือนกันตั้งแต่ sameWrong + sameBlank ข้อขึ้นไปโดยบังเอิญ
+  adjusted: number; // ปรับตามจำนวนคู่ที่เทียบทั้งหมด (Bonferroni)
+  level: SimilarityLevel;
+}
+
+export interface SimilarityReport {
+  pairs: SimilarPair[]; // เรียงจากน่าสงสัยมากไปน้อย เฉพาะคู่ที่เหมือนกันตั้งแต่ MIN_SHARED_ANSWERS ข้อ
+  pairCount: number;
+  skippedVersions: string[]; // ชุดที่มีผู้สอบน้อยเกินไปจนเทียบไม่ได้
+}
+
+export type MatchKind = 'same-wrong' | 'same-blank' | 'same-correct' | 'different';
+
+export interface PairQuestion {
+  question: number;
+  answerA: string;
+  answerB: string;
+  correctAnswer: string;
+  correctA: boolean;
+  correctB: boolean;
+  kind: MatchKind;
+}
+
+const counted = (d: GradingDetail) => d.maxPoints !== 0;
+
+// คำตอบที่ใช้เทียบ: ข้อที่มาร์คหลายช่องมี studentAnswer ว่าง จึงใช้ช่องที่มาร์คแทน
+// เพื่อไม่ให้นับเป็นการเว้นว่างเหมือนกัน (ยกเว้นครูแก้คำตอบแล้ว ให้ใช้คำตอบที่ครูแก้)
+const responseOf = (d: GradingDetail): string =>
+  (d.studentAnswer || d.override || (d.markedLabels ?? []).length < 2) ? d.studentAnswer : [...d.markedLabels!].sort().join('+');
+
+// ความน่าจะเป็นที่ได้สำเร็จตั้งแต่ k ครั้งขึ้นไป เมื่อแต่ละครั้งมีโอกาสสำเร็จไม่เท่ากัน
+const tailProbability = (probabilities: number[], k: number): number => {
+  if (k <= 0) return 1;
+  let dist = [1];
+  probabilities.forEach(p => {
+    const next = new Array(dist.length + 1).fill(0);
+    dist.forEach((v, i) => {
+      next[i] += v * (1 - p);
+      next[i + 1] += v * p;
+    });
+    dist = next;
+  });
+  return Math.min(1, dist.slice(k).reduce((sum, v) => sum + v, 0));
+};
+
+// สัดส่วนคำตอบผิดแต่ละแบบ (รวมเว้นว่าง) ของแต่ละข้อในกลุ่ม
+// นับคำตอบของคู่ที่กำลังเทียบรวมไปด้วย ทำให้ค่าที่ได้ระมัดระวัง (ไม่ชี้ว่าลอกง่ายเกินไป)
+const wrongAnswerShares = (group: GradingResult[]): Map<number, Map<string, number>> => {
+  const counts = new Map<number, Map<string, number>>();
+  group.forEach(r => r.details.filter(d => counted(d) && !d.isCorrect).forEach(d => {
+    const answers = counts.get(d.question) ?? new Map<string, number>();
+    const response = responseOf(d);
+    answers.set(response, (answers.get(response) ?? 0) + 1);
+    counts.set(d.question, answers);
+  }));
+  const shares = new Map<number, Map<string, number>>();
+  counts.forEach((answers, question) => {
+    const total = Array.from(answers.values()).reduce((sum, n) => sum + n, 0);
+    shares.set(question, new Map(Array.from(answers, ([answer, n]) => [answer, n / total])));
+  });
+  return shares;
+};
+
+// โอกาสที่คนสองคนซึ่งตอบผิดทั้งคู่จะผิดเหมือนกัน = ผลรวมของกำลังสองของสัดส่วนแต่ละคำตอบผิด
+const matchProbability = (shares: Map<string, number> | undefined): number =>
+  shares ? Array.from(shares.values()).reduce((sum, s) => sum + s * s, 0) : 0;
+
+export const comparePair = (a: GradingResult, b: GradingResult): PairQuestion[] => {
+  const other = new Map(b.details.filter(counted).map(d => [d.question, d]));
+  return a.details.filter(counted).flatMap(da => {
+    const db = other.get(da.question);
+    if (!db) return [];
+    const answerA = responseOf(da);
+    const answerB = responseOf(db);
+    let kind: MatchKind = 'different';
+    if (answerA === answerB) {
+      if (da.isCorrect && db.isCorrect) kind = 'same-correct';
+      else if (!da.isCorrect && !db.isCorrect) kind = answerA === '' ? 'same-blank' : 'same-wrong';
+    }
+    return [{
+      question: da.question,
+      answerA,
+      answerB,
+      correctAnswer: da.correctAnswer,
+      correctA: da.isCorrect,
+      correctB: db.isCorrect,
+      kind
+    }];
+  }).sort((x, y) => x.question - y.question);
+};
+
+export const findSimilarPairs = (results: GradingResult[], master: MasterConfig): SimilarityReport => {
+  // เทียบเฉพาะคนที่ทำข้อสอบชุดเดียวกัน เพราะชุดอื่นเรียงข้อและเฉลยต่างกัน
+  const base = baseVersionLabel(master);
+  const groups = new Map<string, number[]>();
+  results.forEach((r, i) => {
+    if (!r.details.some(counted)) return;
+    const label = r.versionLabel || base;
+    groups.set(label, [...(groups.get(label) ?? []), i]);
+  });
+
+  const skippedVersions: string[] = [];
+  const candidates: Omit<SimilarPair, 'adjusted' | 'level'>[] = [];
+  let pairCount = 0;
+
+  groups.forEach((indices, versionLabel) => {
+    if (indices.length < MIN_GROUP_SIZE) {
+      if (indices.length > 1) skippedVersions.push(versionLabel);
+      return;
+    }
+    const shares = wrongAnswerShares(indices.map(i => results[i]));
+    for (let x = 0; x < indices.length; x++) {
+      for (let y = x + 1; y < indices.length; y++) {
+        pairCount++;
+        const questions = comparePair(results[indices[x]], results[indices[y]]);
+        const bothWrong = questions.filter(q => !q.correctA && !q.correctB);
+        const sameWrong = bothWrong.filter(q => q.kind === 'same-wrong').length;
+        const sameBlank = bothWrong.filter(q => q.kind === 'same-blank').length;
+        if (sameWrong + sameBlank < MIN_SHARED_ANSWERS) continue;
+        const probabilities = bothWrong.map(q => matchProbability(shares.get(q.question)));
+        candidates.push({
+          a: indices[x],
+          b: indices[y],
+          versionLabel,
+          bothWrong: bothWrong.length,
+          sameWrong,
+          sameBlank,
+          expected: probabilities.reduce((sum, p) => sum + p, 0),
+          probability: tailProbability(probabilities, sameWrong + sameBlank)
+        });
+      }
+    }
+  });
+
+  const pairs = candidates.map(pair => {
+    const adjusted = Math.min(1, pair.probability * pairCount);
+    const level: SimilarityLevel = adjusted < 0.01 ? 'high' : adjusted < 0.05 ? 'watch' : 'none';
+    return { ...pair, adjusted, level };
+  }).sort((x, y) => x.probability - y.probability || (y.sameWrong + y.sameBlank) - (x.sameWrong + x.sameBlank));
+
+  return { pairs, pairCount, skippedVersions };
+};
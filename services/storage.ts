@@ -0,0 +1,142 @@
+import { ExamRecord, GradingSession, SheetTemplate } from "../types.ts";
+
+// คลังข้อสอบและผลการตรวจ เก็บไว้ใน IndexedDB ของเบราว์เซอร์ (ใช้งานออฟไลน์ได้)
+
+const DB_NAME = 'smart-grader';
+const DB_VERSION = 2;
+const EXAMS = 'exams';
+const SESSIONS = 'sessions';
+const TEMPLATES = 'templates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((r, j) => {
+    if (typeof indexedDB === 'undefined') {
+      j(new Error("เบราว์เซอร์นี้ไม่รองรับการบันทึกข้อมูลแบบออฟไลน์"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore(EXAMS, { keyPath: 'id' });
+        const sessions = db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        sessions.createIndex('examId', 'examId');
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore(TEMPLATES, { keyPath: 'id' });
+      }
+    };
+    req.onsuccess = () => r(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      j(new Error("ไม่สามารถเปิดฐานข้อมูลในเครื่องได้"));
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((r, j) => {
+    req.onsuccess = () => r(req.result);
+    req.onerror = () => j(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((r, j) => {
+    tx.oncomplete = () => r();
+    tx.onerror = () => j(tx.error);
+    tx.onabort = () => j(tx.error || new Error("การบันทึกข้อมูลถูกยกเลิก"));
+  });
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const listExams = async (): Promise<ExamRecord[]> => {
+  const db = await openDb();
+  const exams = await requestToPromise(db.transaction(EXAMS).objectStore(EXAMS).getAll() as IDBRequest<ExamRecord[]>);
+  return exams.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getExam = async (id: string): Promise<ExamRecord | undefined> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(EXAMS).objectStore(EXAMS).get(id) as IDBRequest<ExamRecord | undefined>);
+};
+
+export const saveExam = async (exam: ExamRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(EXAMS, 'readwrite');
+  tx.objectStore(EXAMS).put(exam);
+  await transactionDone(tx);
+};
+
+export const renameExam = async (id: string, name: string): Promise<void> => {
+  const exam = await getExam(id);
+  if (!exam) return;
+  await saveExam({ ...exam, subject: { ...exam.subject, name }, updatedAt: Date.now() });
+};
+
+// คัดลอกเฉพาะข้อมูลข้อสอบและเฉลย ไม่รวมผลการตรวจ
+export const duplicateExam = async (id: string, name: string): Promise<ExamRecord | undefined> => {
+  const exam = await getExam(id);
+  if (!exam) return undefined;
+  const now = Date.now();
+  const copy: ExamRecord = { ...exam, id: createId(), subject: { ...exam.subject, name }, createdAt: now, updatedAt: now };
+  await saveExam(copy);
+  return copy;
+};
+
+export const deleteExam = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([EXAMS, SESSIONS], 'readwrite');
+  tx.objectStore(EXAMS).delete(id);
+  const index = tx.objectStore(SESSIONS).index('examId');
+  const keys = await requestToPromise(index.getAllKeys(id));
+  keys.forEach(key => tx.objectStore(SESSIONS).delete(key));
+  await transactionDone(tx);
+};
+
+export const listSessions = async (examId: string): Promise<GradingSession[]> => {
+  const db = await openDb();
+  const index = db.transaction(SESSIONS).objectStore(SESSIONS).index('examId');
+  const sessions = await requestToPromise(index.getAll(examId) as IDBRequest<GradingSession[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (session: GradingSession): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  await transactionDone(tx);
+};
+
+export const listTemplates = async (): Promise<SheetTemplate[]> => {
+  const db = await openDb();
+  const templates = await requestToPromise(db.transaction(TEMPLATES).objectStore(TEMPLATES).getAll() as IDBRequest<SheetTemplate[]>);
+  return templates.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveTemplate = async (template: SheetTemplate): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATES, 'readwrite');
+  tx.objectStore(TEMPLATES).put(template);
+  await transactionDone(tx);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TEMPLATES, 'readwrite');
+  tx.objectStore(TEMPLATES).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,88 @@
+import { ExamVersion, GradingResult, MasterConfig, QuestionRule } from "../types.ts";
+
+// ข้อสอบหลายชุด (สลับลำดับข้อ) และการแปลงเลขข้อกลับเป็นลำดับของชุดหลัก
+
+export const VERSION_LABELS = ['ก', 'ข', 'ค', 'ง'];
+
+export const baseVersionLabel = (master: MasterConfig): string => master.baseVersionLabel || VERSION_LABELS[0];
+
+export const versionLabels = (master: MasterConfig): string[] =>
+  [baseVersionLabel(master), ...(master.versions ?? []).map(v => v.label)];
+
+export const findVersion = (master: MasterConfig, label?: string): ExamVersion | undefined =>
+  label && label !== baseVersionLabel(master) ? master.versions?.find(v => v.label === label) : undefined;
+
+// เฉลยของชุดที่ระบุ ในรูป MasterConfig เพื่อใช้ตรวจและคิดคะแนนได้เหมือนชุดหลัก
+export const versionMaster = (master: MasterConfig, label?: string): MasterConfig => {
+  const version = findVersion(master, label);
+  if (!version) return master;
+
+  // คะแนนและการยกเลิกข้อใช้ตามข้อที่ตรงกันในชุดหลัก เว้นแต่ชุดนี้กำหนดเอง
+  const questions = new Set([...Object.keys(version.correctAnswers), ...Object.keys(version.questionRules ?? {})].map(Number));
+  const questionRules: Record<number, QuestionRule> = {};
+  questions.forEach(q => {
+    const base = master.questionRules?.[canonicalQuestion(master, label, q)];
+    questionRules[q] = { points: base?.points, policy: base?.policy, ...version.questionRules?.[q] };
+  });
+
+  return { ...master, correctAnswers: version.correctAnswers, questionRules };
+};
+
+export const canonicalQuestion = (master: MasterConfig, label: string | undefined, question: number): number =>
+  findVersion(master, label)?.questionMap[question] ?? question;
+
+// แปลงผลการตรวจให้ใช้เลขข้อของชุดหลัก เพื่อรวมสถิติรายข้อข้ามชุด
+export const canonicalizeResult = (result: GradingResult, master: MasterConfig): GradingResult => {
+  if (!findVersion(master, result.versionLabel)) return result;
+  const details = result.details
+    .map(d => ({ ...d, question: canonicalQuestion(master, result.versionLabel, d.question) }))
+    .sort((a, b) => a.question - b.question);
+  return { ...result, details };
+};
+
+export interface ItemCorrectRate {
+  question: number;
+  attempts: number;
+  correct: number;
+  byVersion: Record<string, { attempts: number; correct: number }>;
+}
+
+export const itemCorrectRates = (results: GradingResult[], master: MasterConfig): ItemCorrectRate[] => {
+  const items = new Map<number, ItemCorrectRate>();
+  const base = baseVersionLabel(master);
+  results.forEach(r => {
+    const label = r.versionLabel || base;
+    canonicalizeResult(r, master).details.forEach(d => {
+      if (d.maxPoints === 0) return;
+      const item = items.get(d.question) ?? { question: d.question, attempts: 0, correct: 0, byVersion: {} };
+      const v = item.byVersion[label] ?? { attempts: 0, correct: 0 };
+      item.attempts++;
+      v.attempts++;
+      if (d.isCorrect) {
+        item.correct++;
+        v.correct++;
+      }
+      item.byVersion[label] = v;
+      items.set(d.question, item);
+    });
+  });
+  return Array.from(items.values()).sort((a, b) => a.question - b.question);
+};
+
+// ตรวจว่าการจับคู่ข้อของแต่ละชุดครบและไม่ซ้ำกัน
+export const validateQuestionMap = (version: ExamVersion, questionCount: number): string[] => {
+  const issues: string[] = [];
+  const seen = new Map<number, number>();
+  for (let q = 1; q <= questionCount; q++) {
+    const target = version.questionMap[q];
+    if (!target || target < 1 || target > questionCount) {
+      issues.push(`ชุด ${version.label} ข้อ ${q} ยังไม่ได้ระบุข้อที่ตรงกันในชุดหลัก`);
+      continue;
+    }
+    if (seen.has(target)) {
+      issues.push(`ชุด ${version.label} ข้อ ${seen.get(target)} และข้อ ${q} ตรงกับข้อ ${target} ซ้ำกัน`);
+    }
+    seen.set(target, q);
+  }
+  return issues;
+};
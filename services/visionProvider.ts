@@ -0,0 +1,148 @@
+import { VisionProviderId, VisionSettings, VisionTask } from "../types.ts";
+
+// ชั้นกลางระหว่างงานที่ใช้ AI อ่านภาพ (หาเฉลย ตรวจซ้ำ ให้คะแนนข้อเขียน) กับผู้ให้บริการแต่ละราย
+// ผู้ให้บริการรับคำสั่งและ schema ชุดเดียวกัน แล้วคืน JSON ที่ยังไม่ได้ตรวจรูปแบบ
+
+// JSON Schema แบบย่อที่ทุกผู้ให้บริการแปลงไปใช้ได้
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export type VisionPart = { text: string } | { imageUrl: string }; // imageUrl = data URL ของภาพ
+
+export interface VisionRequest {
+  task: VisionTask;
+  parts: VisionPart[];
+  systemInstruction: string;
+  schema: JsonSchema;
+  thinkingBudget?: number;
+  context?: Record<string, unknown>; // ข้อมูลประกอบสำหรับโหมดจำลอง เช่น จำนวนข้อ
+}
+
+export interface VisionProvider {
+  generateJson: (request: VisionRequest, settings: VisionSettings) => Promise<unknown>;
+}
+
+export const PROVIDER_LABELS: Record<VisionProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI API / โมเดลในเครื่อง',
+  mock: 'ข้อมูลจำลอง (ออฟไลน์)'
+};
+
+export const DEFAULT_MODELS: Record<VisionProviderId, string> = {
+  gemini: 'gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock'
+};
+
+export const QUOTA_MESSAGE = "โควต้า API เต็ม กรุณารอครู่หนึ่งแล้วลองใหม่";
+
+export const extractJson = (text: string): string => {
+  const match = text.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
+  if (match) return match[0];
+  return text;
+};
+
+export const splitDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)?(?:;[^,]*)?,/);
+  return { mimeType: match?.[1] || 'image/jpeg', data: dataUrl.slice(match ? match[0].length : 0) };
+};
+
+// ข้อผิดพลาดจาก HTTP ที่เก็บ status ไว้ให้ตัดสินใจลองใหม่ได้
+export const httpError = (status: number, message: string, retryAfterMs?: number): Error =>
+  Object.assign(new Error(message), { status, retryAfterMs });
+
+export const isRateLimitError = (error: any): boolean =>
+  error?.status === 429 ||
+  !!error?.message?.includes("429") || !!error?.message?.includes("quota") || !!error?.message?.includes("RESOURCE_EXHAUSTED");
+
+const isRetryable = (error: any): boolean => isRateLimitError(error) || (error?.status >= 500 && error?.status < 600);
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// ลองใหม่เมื่อถูกจำกัดอัตราการเรียก (429) หรือเซิร์ฟเวอร์ขัดข้องชั่วคราว โดยรอนานขึ้นเป็นเท่าตัวในแต่ละครั้ง
+export const withRetry = async <T>(fn: () => Promise<T>, { retries = 3, baseDelayMs = 1000 }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      const delay = error.retryAfterMs ?? baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs * 0.5;
+      await sleep(delay);
+    }
+  }
+};
+
+// ตรวจรูปแบบ JSON ตาม schema คืนรายการปัญหา (ว่าง = ถูกต้อง)
+export const validateSchema = (value: unknown, schema: JsonSchema, path = 'ผลลัพธ์'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} ต้องเป็น object`];
+      const obj = value as Record<string, unknown>;
+      const missing = (schema.required ?? []).filter(key => obj[key] === undefined).map(key => `${path}.${key} ขาดหายไป`);
+      const nested = Object.entries(schema.properties ?? {})
+        .filter(([key]) => obj[key] !== undefined)
+        .flatMap(([key, child]) => validateSchema(obj[key], child, `${path}.${key}`));
+      return [...missing, ...nested];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} ต้องเป็นรายการ`];
+      return schema.items ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} ต้องเป็นจำนวนเต็ม`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} ต้องเป็นตัวเลข`];
+    case 'string':
+      return typeof value === 'string' ? [] : [`${path} ต้องเป็นข้อความ`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} ต้องเป็น true/false`];
+  }
+};
+
+// ตั้งค่าเก็บใน localStorage เพื่อให้ API Key ยังอยู่หลังรีเฟรชหน้า (อ่านได้ทันทีโดยไม่ต้องรอ IndexedDB)
+const SETTINGS_KEY = 'smart-grader:vision-settings';
+
+export const loadVisionSettings = (): VisionSettings => {
+  const fallback: VisionSettings = { provider: 'gemini', model: '', apiKey: process.env.API_KEY || '' };
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...fallback, ...JSON.parse(stored) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveVisionSettings = (settings: VisionSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    throw new Error("บันทึกการตั้งค่าไม่สำเร็จ (พื้นที่เก็บข้อมูลของเบราว์เซอร์เต็มหรือถูกปิดไว้)");
+  }
+};
+
+export const modelOf = (settings: VisionSettings): string => settings.model.trim() || DEFAULT_MODELS[settings.provider];
+
+// พร้อมเรียก AI หรือไม่ (เซิร์ฟเวอร์ในเครื่องอาจไม่ต้องใช้ API Key)
+export const isVisionConfigured = (settings: VisionSettings = loadVisionSettings()): boolean => {
+  if (settings.provider === 'mock') return true;
+  if (settings.provider === 'openai') return !!settings.baseUrl?.trim();
+  return !!settings.apiKey.trim();
+};
+
+// คำตอบล่าสุดของแต่ละงานจากผู้ให้บริการจริง ใช้บันทึกเป็นข้อมูลจำลอง
+const recorded: Partial<Record<VisionTask, unknown>> = {};
+
+export const recordResponse = (task: VisionTask, response: unknown) => {
+  recorded[task] = response;
+};
+
+export const recordedResponses = (): Partial<Record<VisionTask, unknown>> => ({ ...recorded });
@@ -0,0 +1,110 @@
+import { GradingResult, MasterConfig, WrittenRegion, WrittenScore } from "../types.ts";
+import { scoreResult } from "./grader.ts";
+import { cropRegion, loadImage, scoreWrittenAnswers, WrittenCrop } from "./imageProcessor.ts";
+import { QUOTA_MESSAGE } from "./visionProvider.ts";
+
+// ข้อเขียน/ตอบสั้น: AI เสนอคะแนนจากภาพคำตอบตามเกณฑ์ ครูยืนยันหรือปรับก่อนนับรวมในคะแนน
+
+const CROP_MAX_WIDTH = 1200;
+
+export const writtenTotal = (master: MasterConfig): number =>
+  (master.writtenRegions ?? []).reduce((sum, r) => sum + r.maxScore, 0);
+
+export const writtenEntry = (result: GradingResult, regionId: string): WrittenScore | undefined =>
+  result.written?.find(w => w.regionId === regionId);
+
+// จำนวนข้อเขียนที่ครูยังไม่ยืนยันคะแนน
+export const unconfirmedWritten = (results: GradingResult[], master: MasterConfig): number =>
+  results.reduce((sum, r) =>
+    sum + (master.writtenRegions ?? []).filter(region => (writtenEntry(r, region.id)?.score ?? null) === null).length, 0);
+
+const updateEntry = (result: GradingResult, regionId: string, patch: Partial<WrittenScore>): GradingResult => {
+  const current = writtenEntry(result, regionId) ?? { regionId, score: null };
+  const written = [...(result.written ?? []).filter(w => w.regionId !== regionId), { ...current, ...patch }];
+  return { ...result, written, score: scoreResult(result.details, written) };
+};
+
+// ครูยืนยันคะแนน (null = ยกเลิกการยืนยัน ไม่นับรวมจนกว่าจะยืนยันใหม่)
+export const confirmWrittenScore = (result: GradingResult, region: WrittenRegion, score: number | null): GradingResult =>
+  updateEntry(result, region.id, score === null
+    ? { score: null, confirmedAt: undefined }
+    : { score: Math.min(region.maxScore, Math.max(0, score)), confirmedAt: Date.now() });
+
+const cropWritten = async (result: GradingResult, regions: WrittenRegion[]): Promise<WrittenCrop[]> => {
+  const pageUrls = [result.imageUrl, ...(result.extraPageImages ?? [])];
+  const images = new Map<number, HTMLImageElement>();
+  const crops: WrittenCrop[] = [];
+  const canvas = document.createElement('canvas');
+
+  for (const region of regions) {
+    const page = region.page ?? 1;
+    const url = pageUrls[page - 1];
+    if (!url) continue;
+    if (!images.has(page)) images.set(page, await loadImage(url));
+    crops.push({
+      regionId: region.id,
+      prompt: region.prompt,
+      rubric: region.rubric,
+      maxScore: region.maxScore,
+      imageUrl: cropRegion(canvas, images.get(page)!, region, CROP_MAX_WIDTH)
+    });
+  }
+  return crops;
+};
+
+// นำคะแนนที่ AI เสนอไปใส่ในแถวล่าสุดของแผ่นเดียวกัน คะแนนที่ครูยืนยันระหว่างนั้นยังอยู่ครบ
+export const mergeProposals = (current: GradingResult, proposed: GradingResult): GradingResult =>
+  (proposed.written ?? [])
+    .filter(w => w.aiScore !== undefined && writtenEntry(current, w.regionId)?.aiScore === undefined)
+    .reduce((acc, w) => updateEntry(acc, w.regionId, { aiScore: w.aiScore, aiReason: w.aiReason, transcript: w.transcript }), current);
+
+export interface WrittenScoringOptions {
+  callBudget: number; // ใช้เพดานเดียวกับการตรวจซ้ำด้วย AI
+  onCall?: () => void;
+  onResult?: (original: GradingResult, updated: GradingResult) => void;
+}
+
+export interface WrittenScoringSummary {
+  calls: number;
+  proposed: number;
+  stoppedReason?: string;
+}
+
+// เสนอคะแนนข้อเขียนที่ยังไม่มีคะแนนจาก AI และครูยังไม่ยืนยัน แผ่นละ 1 ครั้ง
+export const proposeWrittenScores = async (
+  results: GradingResult[],
+  master: MasterConfig,
+  options: WrittenScoringOptions
+): Promise<WrittenScoringSummary> => {
+  const summary: WrittenScoringSummary = { calls: 0, proposed: 0 };
+  const regions = master.writtenRegions ?? [];
+
+  for (const result of results) {
+    const todo = regions.filter(region => {
+      const entry = writtenEntry(result, region.id);
+      return entry?.aiScore === undefined && (entry?.score ?? null) === null;
+    });
+    if (todo.length === 0) continue;
+    if (summary.calls >= options.callBudget) {
+      summary.stoppedReason = "ครบจำนวนครั้งที่กำหนดสำหรับรอบการตรวจนี้แล้ว";
+      return summary;
+    }
+    try {
+      const crops = await cropWritten(result, todo);
+      if (crops.length === 0) continue;
+      summary.calls++;
+      options.onCall?.();
+      const proposals = await scoreWrittenAnswers(crops);
+      const updated = proposals.reduce(
+        (acc, p) => updateEntry(acc, p.regionId, { aiScore: p.score, aiReason: p.reason, transcript: p.transcript }),
+        result
+      );
+      summary.proposed += proposals.length;
+      options.onResult?.(result, updated);
+    } catch (err: any) {
+      summary.stoppedReason = err.message === QUOTA_MESSAGE ? `${QUOTA_MESSAGE} (เสนอคะแนนข้อที่เหลือได้ภายหลัง)` : err.message;
+      return summary;
+    }
+  }
+  return summary;
+};
@@ -0,0 +1,150 @@
+import { createZip, readZip } from "./zip.ts";
+
+// สร้างไฟล์ Excel (.xlsx) อย่างง่าย ใช้ inline string เพื่อให้ภาษาไทยแสดงผลถูกต้อง
+
+export type CellValue = string | number | null | undefined;
+
+export interface SheetData {
+  name: string;
+  rows: CellValue[][];
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // ตัดอักขระควบคุมที่ XML ไม่รองรับ
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+export const columnName = (index: number): string => {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+};
+
+// ชื่อชีตห้ามมีอักขระพิเศษบางตัวและยาวได้ไม่เกิน 31 ตัวอักษร
+const safeSheetName = (name: string, index: number): string => {
+  const cleaned = name.replace(/[\\\/\?\*\[\]:]/g, ' ').trim().slice(0, 31);
+  return cleaned || `Sheet${index + 1}`;
+};
+
+const buildSheetXml = (rows: CellValue[][]): string => {
+  const rowXml = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      if (value === null || value === undefined || value === '') return '';
+      const ref = `${columnName(c)}${r + 1}`;
+      // แถวแรกเป็นหัวตาราง ใช้สไตล์ตัวหนา
+      const style = r === 0 ? ' s="1"' : '';
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      }
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${rowXml}</sheetData></worksheet>`;
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Tahoma"/></font><font><b/><sz val="11"/><name val="Tahoma"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+export const buildXlsx = (sheets: SheetData[]): Uint8Array => {
+  const names = sheets.map((s, i) => safeSheetName(s.name, i));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${
+    sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+  }</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+  }</sheets></workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${
+    sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+  }<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: buildSheetXml(s.rows) }))
+  ]);
+};
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) index = index * 26 + (letters.charCodeAt(i) - 64);
+  return index - 1;
+};
+
+const parseXml = (data: Uint8Array | undefined): Document | null =>
+  data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+
+// อ่านชีตแรกของไฟล์ .xlsx เป็นตารางข้อความ
+export const readXlsxFirstSheet = async (data: Uint8Array): Promise<string[][]> => {
+  const files = await readZip(data);
+
+  const shared: string[] = [];
+  const sharedDoc = parseXml(files.get('xl/sharedStrings.xml'));
+  if (sharedDoc) {
+    Array.from(sharedDoc.getElementsByTagName('si')).forEach(si => {
+      // ข้ามคำอ่าน (rPh) ที่ Excel แนบมากับข้อความบางภาษา
+      const parts = Array.from(si.getElementsByTagName('t')).filter(t => t.parentElement?.nodeName !== 'rPh');
+      shared.push(parts.map(t => t.textContent || '').join(''));
+    });
+  }
+
+  // หาไฟล์ของชีตแรกตามลำดับใน workbook
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = parseXml(files.get('xl/workbook.xml'));
+  const rels = parseXml(files.get('xl/_rels/workbook.xml.rels'));
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  if (relId && rels) {
+    const rel = Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = parseXml(files.get(sheetPath));
+  if (!sheet) throw new Error("ไม่พบข้อมูลชีตในไฟล์ Excel");
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowEl, r) => {
+    const rowIndex = parseInt(rowEl.getAttribute('r') || '') - 1;
+    const row: string[] = [];
+    Array.from(rowEl.getElementsByTagName('c')).forEach((cell, c) => {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : c;
+      const type = cell.getAttribute('t');
+      let value = '';
+      if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      } else {
+        const v = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+        value = type === 's' ? (shared[parseInt(v)] ?? '') : v;
+      }
+      row[col] = value;
+    });
+    rows[isNaN(rowIndex) ? r : rowIndex] = Array.from(row, v => v ?? '');
+  });
+  return Array.from(rows, row => row ?? []);
+};
@@ -1,23 +1,203 @@
 
-export interface BoxCoordinate {
-  id: string;
+export interface BoxRegion {
   x: number; // percentage 0-100
   y: number; // percentage 0-100
   w: number;
   h: number;
+  page?: number; // หน้าที่ของกระดาษ (เริ่มที่ 1) สำหรับข้อสอบหลายหน้า
+}
+
+export interface BoxCoordinate extends BoxRegion {
+  id: string;
   questionNumber: number;
   optionLabel: string;
 }
 
+// ช่องระบายเลขประจำตัวนักเรียน: หลักละ 10 ช่อง (0-9) เรียงจากบนลงล่าง
+export interface IdGridBox extends BoxRegion {
+  id: string;
+  column: number; // หลักที่ (1 = ซ้ายสุด)
+  digit: number; // 0-9
+}
+
+// ช่องระบายรหัสชุดข้อสอบ (ชุด ก/ข/ค/ง)
+export interface VersionBox extends BoxRegion {
+  id: string;
+  label: string;
+}
+
+// กรอบคำตอบแบบเขียน/ตอบสั้นบนกระดาษ พร้อมเกณฑ์การให้คะแนน
+export interface WrittenRegion extends BoxRegion {
+  id: string;
+  label: string; // ชื่อที่แสดง เช่น "ตอนที่ 2 ข้อ 1"
+  prompt?: string; // โจทย์ ช่วยให้ AI เข้าใจคำตอบ
+  rubric: string; // เกณฑ์การให้คะแนน
+  maxScore: number;
+}
+
+// เกณฑ์ตัดเกรด: ได้ร้อยละตั้งแต่ minPercent ขึ้นไปได้ grade นี้ (ใช้ช่วงที่สูงที่สุดที่ถึง)
+export interface GradeBand {
+  minPercent: number;
+  grade: string;
+}
+
+export interface GradeScale {
+  name: string;
+  bands: GradeBand[];
+}
+
+// ข้อสอบชุดอื่นที่สลับลำดับข้อ ใช้ผังกระดาษเดียวกับชุดหลัก
+export interface ExamVersion {
+  label: string;
+  correctAnswers: Record<number, string>;
+  questionRules?: Record<number, QuestionRule>;
+  questionMap: Record<number, number>; // ข้อในชุดนี้ -> ข้อในชุดหลัก
+}
+
+export interface StudentIdRead {
+  value: string; // หลักที่อ่านไม่ได้แทนด้วย "?"
+  confidence: number; // 0-1
+  needsReview: boolean;
+  flaggedColumns: number[];
+}
+
 export interface SubjectInfo {
   name: string;
   questionCount: number;
+  optionCount?: number; // จำนวนตัวเลือกต่อข้อ 2-5 (ค่าเริ่มต้น 4)
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface SheetRegistration {
+  method: 'fiducial' | 'edges' | 'none';
+  // มุมกระดาษ บนซ้าย, บนขวา, ล่างขวา, ล่างซ้าย (สัดส่วน 0-1 ของขนาดภาพ)
+  corners: Point[];
+  confidence: number; // 0-1
+}
+
+// normal = ตรวจตามเฉลย, bonus = ให้คะแนนทุกคน, drop = ตัดข้อออกจากคะแนนเต็ม
+export type QuestionPolicy = 'normal' | 'bonus' | 'drop';
+
+export interface QuestionRule {
+  alsoAccept?: string[]; // คำตอบอื่นที่ยอมรับนอกจาก correctAnswers
+  points?: number; // คะแนนของข้อ (ค่าเริ่มต้น 1)
+  policy?: QuestionPolicy;
+}
+
+// ภาพต้นแบบหนึ่งหน้า พร้อมข้อมูลสำหรับจัดแนวภาพนักเรียนหน้าเดียวกัน
+export interface MasterPage {
+  imageUrl: string;
+  imageWidth?: number;
+  imageHeight?: number;
+  registration?: SheetRegistration;
 }
 
 export interface MasterConfig {
   imageUrl: string;
   boxes: BoxCoordinate[];
   correctAnswers: Record<number, string>;
+  questionRules?: Record<number, QuestionRule>;
+  idGrid?: IdGridBox[];
+  baseVersionLabel?: string; // ชื่อชุดของเฉลยหลัก (ค่าเริ่มต้น ก)
+  versions?: ExamVersion[];
+  versionBoxes?: VersionBox[];
+  imageWidth?: number;
+  imageHeight?: number;
+  registration?: SheetRegistration;
+  templateId?: string; // แม่แบบกระดาษคำตอบที่ใช้ (ไม่มีภาพถ่ายต้นแบบ)
+  extraPages?: MasterPage[]; // หน้าที่ 2 เป็นต้นไป (หน้าแรกใช้ imageUrl และ registration ด้านบน)
+  writtenRegions?: WrittenRegion[]; // ส่วนข้อเขียน ใช้ร่วมกันทุกชุดข้อสอบ
+  gradeScale?: GradeScale; // ไม่กำหนด = เกณฑ์ 8 ระดับ (0-4)
+}
+
+// แม่แบบกระดาษคำตอบ: ตำแหน่งช่องที่ใช้ซ้ำได้กับหลายข้อสอบ
+export interface SheetTemplate {
+  id: string;
+  name: string;
+  questionCount: number;
+  optionCount: number;
+  columns?: number; // จำนวนคอลัมน์ของข้อสอบ (ทราบเฉพาะแม่แบบที่สร้างจากแอป)
+  idDigits: number; // 0 = ไม่มีช่องระบายเลขประจำตัว
+  boxes: BoxCoordinate[];
+  idGrid?: IdGridBox[];
+  versionBoxes?: VersionBox[];
+  imageUrl: string; // ภาพต้นแบบ หรือ SVG ของกระดาษที่แอปสร้าง
+  imageWidth: number;
+  imageHeight: number;
+  registration?: SheetRegistration;
+  extraPages?: MasterPage[];
+  source: 'generated' | 'master';
+  createdAt: number;
+  updatedAt: number;
+}
+
+// วิธีหาตำแหน่งช่องบนกระดาษต้นแบบ: ในเครื่อง (ใช้ AI สำรอง), AI, หรือในเครื่องแล้วให้ AI ตรวจซ้ำ
+export type MasterDetectionMode = 'local' | 'ai' | 'both';
+
+export interface MasterDetectionReport {
+  source: 'local' | 'ai';
+  fallbackReason?: string; // เหตุผลที่ต้องใช้ AI แทนการตรวจในเครื่อง
+  unmarkedQuestions: number[];
+  aiAnswers?: Record<number, string>; // เฉลยที่ AI อ่านได้ (เมื่อตรวจซ้ำ)
+  crossCheckError?: string; // ตรวจซ้ำด้วย AI ไม่สำเร็จ (ยังใช้ผลจากการตรวจในเครื่อง)
+  missingIdRegions?: boolean; // การตรวจในเครื่องยังหาช่องเลขประจำตัวและชุดข้อสอบไม่ได้
+  mismatches: number[];
+}
+
+// empty = ว่าง, faint = รอยจาง/ลบไม่หมด, mark = กากบาท, cancelled = ขีดฆ่า/ระบายทับเพื่อยกเลิก
+export type MarkClass = 'empty' | 'faint' | 'mark' | 'cancelled';
+
+export interface GradingDetail {
+  question: number;
+  // Fix: Using string instead of string | null to match grading logic and compiler expectations
+  studentAnswer: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  isWarning: boolean;
+  confidence: number; // 0-1 ความมั่นใจในการอ่านรอยมาร์คของข้อนี้
+  densities?: Record<string, number>; // ความหนาแน่นหมึกของแต่ละตัวเลือก
+  markedLabels?: string[];
+  markStates?: Record<string, MarkClass>; // ลักษณะรอยในแต่ละช่อง เก็บไว้ตรวจสอบย้อนหลัง
+  override?: AnswerOverride;
+  aiOpinion?: AiOpinion;
+  points?: number; // คะแนนที่ได้ในข้อนี้
+  maxPoints?: number; // คะแนนเต็มของข้อนี้ (0 เมื่อตัดข้อทิ้ง)
+}
+
+// ครูแก้คำตอบที่เครื่องอ่านได้ด้วยตนเอง
+export interface AnswerOverride {
+  originalAnswer: string;
+  at: number;
+}
+
+// ความเห็นที่สองจาก AI สำหรับข้อที่เครื่องอ่านไม่ชัด
+// agreed = ตรงกับที่เครื่องอ่าน, pending = ไม่ตรง รอครูตัดสิน, unclear = AI ก็ตัดสินไม่ได้
+export interface AiOpinion {
+  answer: string;
+  status: 'agreed' | 'pending' | 'accepted' | 'rejected' | 'unclear';
+  checkedAt: number;
+}
+
+// คะแนนข้อเขียนหนึ่งข้อ: AI เสนอคะแนนพร้อมเหตุผล ครูเป็นผู้ยืนยันหรือปรับ
+export interface WrittenScore {
+  regionId: string;
+  score: number | null; // คะแนนที่ครูยืนยัน (null = ยังไม่ยืนยัน ไม่นับรวม)
+  aiScore?: number;
+  aiReason?: string;
+  transcript?: string; // ข้อความที่ AI อ่านได้จากลายมือ
+  confirmedAt?: number;
+}
+
+export type QualityStatus = 'pass' | 'warn' | 'fail';
+
+// ผลตรวจคุณภาพภาพก่อนอ่านรอยมาร์ค (เบลอ แสง แสงสะท้อน ขนาดกระดาษในภาพ ความละเอียด)
+export interface ImageQuality {
+  status: QualityStatus;
+  reasons: string[];
 }
 
 export interface GradingResult {
@@ -25,13 +205,64 @@ export interface GradingResult {
   studentName: string; // ชื่อ-นามสกุล
   score: number;
   total: number;
-  details: {
-    question: number;
-    // Fix: Using string instead of string | null to match grading logic and compiler expectations
-    studentAnswer: string;
-    correctAnswer: string;
-    isCorrect: boolean;
-    isWarning: boolean;
-  }[];
+  details: GradingDetail[];
+  written?: WrittenScore[];
+  alignmentConfidence?: number; // 0-1 ความมั่นใจในการจัดแนวภาพให้ตรงกับต้นแบบ
+  idRead?: StudentIdRead; // เลขประจำตัวที่อ่านได้จากช่องระบายบนกระดาษ
+  versionLabel?: string; // ชุดข้อสอบของกระดาษแผ่นนี้
+  versionNeedsReview?: boolean;
+  imageUrl?: string; // ภาพกระดาษที่จัดแนวแล้ว (พิกัดเดียวกับต้นแบบ)
+  extraPageImages?: string[]; // ภาพหน้าที่ 2 เป็นต้นไปของข้อสอบหลายหน้า
+  rosterId?: string; // อ้างอิง RosterEntry.id เมื่อจับคู่กับรายชื่อแล้ว
+  paperStudentId?: string; // เลขที่และชื่อเดิมก่อนจับคู่กับรายชื่อ (คืนค่าเมื่อยกเลิกการจับคู่)
+  paperStudentName?: string;
+  sourceFileName?: string;
+  quality?: ImageQuality; // มีเฉพาะภาพที่ไม่ผ่านเกณฑ์ทั้งหมด
   timestamp: number;
 }
+
+export interface RosterEntry {
+  id: string;
+  number: string; // เลขที่
+  studentCode: string; // เลขประจำตัวนักเรียน
+  name: string;
+  classroom: string; // ชั้น/ห้อง
+}
+
+export interface ExamRecord {
+  id: string;
+  subject: SubjectInfo;
+  masterConfig: MasterConfig; // รวมภาพต้นแบบ (imageUrl) และเฉลย
+  roster?: RosterEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ผู้ให้บริการ AI อ่านภาพ: Gemini, เซิร์ฟเวอร์ที่รองรับ OpenAI API (เช่นโมเดลในเครื่อง) หรือข้อมูลจำลองสำหรับทดสอบแบบออฟไลน์
+export type VisionProviderId = 'gemini' | 'openai' | 'mock';
+
+export type VisionTask = 'master' | 'recheck' | 'written';
+
+export interface VisionSettings {
+  provider: VisionProviderId;
+  model: string; // ว่าง = ใช้โมเดลเริ่มต้นของผู้ให้บริการ
+  apiKey: string;
+  baseUrl?: string; // สำหรับ openai เช่น http://localhost:11434/v1
+  mockResponses?: Partial<Record<VisionTask, unknown>>; // คำตอบที่บันทึกไว้สำหรับโหมดจำลอง
+}
+
+// จำนวนครั้งที่เรียก AI ตรวจซ้ำในรอบการตรวจนี้ และเพดานที่ครูกำหนด
+export interface AiUsage {
+  calls: number;
+  cap: number;
+}
+
+export interface GradingSession {
+  id: string;
+  examId: string;
+  results: GradingResult[];
+  retakes?: GradingResult[]; // ภาพที่คุณภาพไม่ผ่าน รอถ่ายใหม่ (ไม่นับในผลการตรวจ)
+  aiUsage?: AiUsage;
+  createdAt: number;
+  updatedAt: number;
+}